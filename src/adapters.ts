@@ -1,32 +1,111 @@
 import {BigNumberish, BlockTag, ethers} from 'ethers';
 import {Provider} from './provider';
-import {DEFAULT_GAS_PER_PUBDATA_LIMIT, NONCE_HOLDER_ADDRESS} from './utils';
+import {
+  BTC_NETWORKS,
+  checkBtcAddress,
+  DEFAULT_GAS_PER_PUBDATA_LIMIT,
+  encodeDepositOutputs,
+  getBlockWork,
+  getDustThreshold,
+  hasValidProofOfWork,
+  IERC20,
+  isAddressEq,
+  isBtcNetworkEq,
+  L2_BASE_TOKEN_ABI,
+  L2_BASE_TOKEN_ADDRESS,
+  l2UnitsToSats,
+  NONCE_HOLDER_ADDRESS,
+  parseBlockHeader,
+  parseDepositTransaction,
+  POW_LIMIT_BITS,
+  verifyTxOutProof,
+} from './utils';
 import {INonceHolder__factory} from './typechain';
+import {DepositBelowMinimumError, InsufficientL1FundsError} from './errors';
 import {
   Address,
+  BatchDeposit,
+  BitcoinL1Provider,
+  BitcoinNetworkName,
+  DepositBatchDetails,
+  DepositBatchResponse,
+  DepositDetails,
+  DepositEstimate,
+  DepositInclusion,
+  DepositOptions,
+  DepositResponse,
+  DepositStatus,
   Eip712Meta,
+  FeeRateTier,
+  L1Account,
+  L1FeeRate,
+  L1Signer,
+  L1Utxo,
+  Log,
   PaymasterParams,
+  TransactionReceipt,
   TransactionRequest,
   TransactionResponse,
-  UnspentTransactionOutput,
+  WithdrawalDetails,
+  WithdrawalStatus,
 } from './types';
-import BitcoinClient from 'bitcoin-core';
 import * as btc from '@scure/btc-signer';
-import {secp256k1} from '@noble/curves/secp256k1';
-import {hex} from '@scure/base';
-import {SelectionStrategy} from '@scure/btc-signer/utxo';
+import {base64, hex} from '@scure/base';
+import {getPrevOut, SelectionStrategy, toVsize} from '@scure/btc-signer/utxo';
 import {BTC_NETWORK} from '@scure/btc-signer/utils';
 import {P2Ret, P2TROut} from '@scure/btc-signer/payment';
 
+/** The number of milliseconds to sleep between checks of the deposit status. */
+const DEPOSIT_POLLING_INTERVAL = 1_000;
+
+/** The number of milliseconds to sleep between checks of the withdrawal status. */
+const WITHDRAWAL_POLLING_INTERVAL = 10_000;
+
+/** The confirmation targets (in blocks) of the fee rate tiers. */
+const FEE_RATE_TIER_TARGETS: Record<FeeRateTier, number> = {
+  priority: 2,
+  normal: 6,
+  economy: 144,
+};
+
+/** The input sequence number which signals BIP-125 replaceability. */
+const RBF_SEQUENCE = 0xfffffffd;
+
+/** The default incremental relay fee rate of Bitcoin Core in satoshi per vbyte. */
+const DEFAULT_INCREMENTAL_RELAY_FEE = 1n;
+
+/**
+ * Sleeps for the polling `interval`, but not past the `deadline`, and wakes up as soon as the `signal` is aborted,
+ * so that the waiting loops can report the abort or the timeout without delay.
+ */
+function sleepUntil(
+  interval: number,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', wake);
+      resolve();
+    };
+    const timer = setTimeout(
+      wake,
+      Math.max(0, Math.min(interval, deadline - Date.now()))
+    );
+    signal?.addEventListener('abort', wake);
+  });
+}
+
 export abstract class AdapterL1 {
-  /** The private key of the L1 account in WIF format. */
-  protected _signingKey!: string;
+  /** The signer of the inputs which spend the outputs of the L1 account. */
+  protected _signer!: L1Signer;
   /** The address of the L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`. */
   protected _address!: string;
   /** The L1 network configuration. */
   protected _network!: BTC_NETWORK;
   /** The provider instance for connecting to a L1 network. */
-  protected _providerL1?: BitcoinClient;
+  protected _providerL1?: BitcoinL1Provider;
   /** The provider instance for connecting to a L2 network. */
   protected _providerL2?: Provider;
 
@@ -39,31 +118,1141 @@ export abstract class AdapterL1 {
    * @param [transaction.strategy] The UTXO selection strategy. For more details visit
    * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
    * @param [transaction.opts] Optional transaction customization parameters.
-   * @param [transaction.opts.feePerByte] The amount of satoshi per vbyte.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided. If neither is provided, the L1 gas price reported by the L2 network is used.
+   * @param [transaction.opts.minFeePerByte] The minimum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.maxFeePerByte] The maximum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
    * @param [transaction.opts.alwaysChange] Weather to always create change, even if less than dust threshold.
    * @param [transaction.opts.dust] The vbyte threshold below which outputs are considered dust and avoided.
    * @param [transaction.opts.dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust.
-   * @returns The transaction ID (txid) of the broadcasted L1 transaction.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   * @param [transaction.opts.minConf] The minimum number of confirmations of the spent UTXOs. Defaults to 1.
+   * @param [transaction.opts.maxConf] The maximum number of confirmations of the spent UTXOs.
+   * @param [transaction.opts.includeOutpoints] The outpoints (`txid:vout`) which are allowed to be spent.
+   * @param [transaction.opts.excludeOutpoints] The outpoints (`txid:vout`) which must not be spent.
+   * @param [transaction.opts.utxoFilter] Returns whether the UTXO can be spent, e.g. it carries no inscriptions or runes.
+   * @param [transaction.opts.maxInputs] The maximum number of inputs of the transaction.
+   * @param [transaction.opts.minDepositAmount] The minimum amount in satoshi which the bridge credits for a deposit.
+   * @returns The response of the broadcasted L1 transaction which can be used for tracking the deposit.
+   * Previously the txid was returned, which is now available as the `hash` of the response.
+   *
+   * @throws {DepositBelowMinimumError} If the amount is below the minimum deposit amount or the dust threshold.
+   * @throws {InsufficientL1FundsError} If the UTXOs do not cover the amount and the fee.
    */
   async deposit(transaction: {
     to: Address;
     amount: BigNumberish;
     strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<DepositResponse> {
+    const {selected, feeRate, accounts} =
+      await this._selectDepositUtxos(transaction);
+    const tx = selected.tx!;
+    await this._signL1Tx(tx, accounts);
+
+    return this._toDepositResponse(await this._broadcastL1(tx), feeRate);
+  }
+
+  /**
+   * Returns the balance of the L1 accounts in satoshi.
+   *
+   * @param [opts] The options for counting the outputs.
+   * @param [opts.minConf] The minimum number of confirmations of the counted outputs. Defaults to 1.
+   */
+  async getBalance(opts?: {minConf?: number}): Promise<bigint> {
+    const utxos = await this.listUtxos(opts);
+    return utxos.reduce((sum, utxo) => sum + utxo.amount, 0n);
+  }
+
+  /**
+   * Returns the unspent outputs of the L1 accounts.
+   *
+   * @param [opts] The options for listing the outputs.
+   * @param [opts.minConf] The minimum number of confirmations of the listed outputs. Defaults to 1.
+   * @param [opts.maxConf] The maximum number of confirmations of the listed outputs.
+   */
+  async listUtxos(opts?: {
+    minConf?: number;
+    maxConf?: number;
+  }): Promise<L1Utxo[]> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+
+    const {accounts} = await this._getL1Accounts();
+    const utxos = await this._listUnspent(accounts, opts);
+    return utxos.map(({account, ...utxo}) => ({
+      ...utxo,
+      address: account.address,
+    }));
+  }
+
+  /**
+   * Sends BTC from the L1 accounts to the L1 address, using the same UTXO selection and signing
+   * as {@link deposit}.
+   *
+   * @param transaction The transfer transaction request.
+   * @param transaction.to The L1 address of the recipient.
+   * @param transaction.amount The amount in satoshi.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters, the same as the ones accepted by {@link deposit}.
+   * @returns The transaction ID (txid) of the broadcasted L1 transaction.
+   *
+   * @throws {InvalidL1AddressError} If the address of the recipient cannot receive BTC on the L1 network.
+   * @throws {InsufficientL1FundsError} If the UTXOs do not cover the amount and the fee.
+   */
+  async transfer(transaction: {
+    to: string;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<string> {
+    checkBtcAddress(transaction.to, this._network);
+
+    const {selected, accounts} = await this._selectL1Utxos(
+      [{address: transaction.to, amount: BigInt(transaction.amount)}],
+      {...transaction, bip69: true}
+    );
+    const tx = selected.tx!;
+    await this._signL1Tx(tx, accounts);
+
+    return await this._broadcastL1(tx);
+  }
+
+  /**
+   * Creates an unsigned deposit transaction in the BIP-174 PSBT format, so that it can be signed
+   * by an external or hardware signer. The inputs, outputs and fee are the same as the ones
+   * created by {@link deposit}.
+   *
+   * @param transaction The deposit transaction request.
+   * @param transaction.to The address that will receive the deposited tokens on L2.
+   * @param transaction.amount The amount of the token to deposit.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided. If neither is provided, the L1 gas price reported by the L2 network is used.
+   * @param [transaction.opts.minFeePerByte] The minimum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.maxFeePerByte] The maximum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.alwaysChange] Weather to always create change, even if less than dust threshold.
+   * @param [transaction.opts.dust] The vbyte threshold below which outputs are considered dust and avoided.
+   * @param [transaction.opts.dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   * @param [transaction.opts.minConf] The minimum number of confirmations of the spent UTXOs. Defaults to 1.
+   * @param [transaction.opts.maxConf] The maximum number of confirmations of the spent UTXOs.
+   * @param [transaction.opts.includeOutpoints] The outpoints (`txid:vout`) which are allowed to be spent.
+   * @param [transaction.opts.excludeOutpoints] The outpoints (`txid:vout`) which must not be spent.
+   * @param [transaction.opts.utxoFilter] Returns whether the UTXO can be spent, e.g. it carries no inscriptions or runes.
+   * @param [transaction.opts.maxInputs] The maximum number of inputs of the transaction.
+   * @param [transaction.opts.minDepositAmount] The minimum amount in satoshi which the bridge credits for a deposit.
+   * @returns The serialized unsigned PSBT.
+   *
+   * @throws {DepositBelowMinimumError} If the amount is below the minimum deposit amount or the dust threshold.
+   * @throws {InsufficientL1FundsError} If the UTXOs do not cover the amount and the fee.
+   */
+  async buildDepositPsbt(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<Uint8Array> {
+    const tx = await this._createDepositTx(transaction);
+    return tx.toPSBT();
+  }
+
+  /**
+   * Finalizes the signed deposit PSBT created by {@link buildDepositPsbt} and broadcasts it to the L1 network.
+   *
+   * @param psbt The signed PSBT, either serialized or encoded in base64.
+   * @returns The response of the broadcasted L1 transaction which can be used for tracking the deposit.
+   *
+   * @throws {Error} If the transaction is not a valid deposit to the bridge address.
+   */
+  async finalizeAndBroadcastDepositPsbt(
+    psbt: Uint8Array | string
+  ): Promise<DepositResponse> {
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+
+    const tx = btc.Transaction.fromPSBT(
+      typeof psbt === 'string' ? base64.decode(psbt) : psbt
+    );
+    tx.finalize();
+
+    const {errors} = parseDepositTransaction(
+      tx.hex,
+      await this._providerL2.getBridgeAddress(),
+      this._network
+    );
+    if (errors.length > 0)
+      throw new Error(
+        `Transaction ${tx.id} is not a deposit: ${errors.join(', ')}`
+      );
+
+    return this._toDepositResponse(await this._broadcastL1(tx));
+  }
+
+  /**
+   * Returns the current lifecycle stage of the deposit: in the L1 mempool, confirmed on L1,
+   * picked up by the sequencer, included in an L2 block or finalized.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   */
+  async getDepositStatus(txid: string): Promise<DepositDetails> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+
+    const l1Status = await this._providerL1.getTxStatus(txid);
+    const l1Details = {
+      l1Confirmations: l1Status?.confirmations ?? 0,
+      l1BlockHeight: l1Status?.blockHeight,
+    };
+
+    const l2Tx = await this._getDepositL2Transaction(txid);
+    if (l2Tx) {
+      const receipt = await this._providerL2.getTransactionReceipt(l2Tx.hash);
+      if (!receipt || !receipt.blockNumber) {
+        return {
+          status: DepositStatus.Processing,
+          ...l1Details,
+          l2TxHash: l2Tx.hash,
+        };
+      }
+      const finalizedBlock = await this._providerL2.getBlock('finalized');
+      return {
+        status:
+          receipt.blockNumber <= finalizedBlock.number
+            ? DepositStatus.Finalized
+            : DepositStatus.Included,
+        ...l1Details,
+        l2TxHash: l2Tx.hash,
+        receipt,
+      };
+    }
+
+    if (!l1Status) return {status: DepositStatus.NotFound, ...l1Details};
+    return {
+      status: l1Status.confirmed
+        ? DepositStatus.Confirmed
+        : DepositStatus.Mempool,
+      ...l1Details,
+    };
+  }
+
+  /**
+   * Transfers the specified amounts from the associated account on the L1 network to many target
+   * accounts on the L2 network using a single L1 transaction.
+   *
+   * Each deposit is encoded as the output paying the bridge address, directly followed by the
+   * `OP_RETURN` output storing its L2 recipient, in the order of `deposits`.
+   *
+   * The batch deposit is experimental and has to be enabled with `transaction.experimental`:
+   * - The bridge does not specify deposits with many `OP_RETURN` outputs, so it might credit only
+   *   the first of them, or none at all.
+   * - Relaying transactions with many `OP_RETURN` outputs requires the policy of Bitcoin Core 30
+   *   or later, so the transaction might not propagate through older nodes.
+   *
+   * @param deposits The deposits of the batch.
+   * @param transaction The batch deposit transaction request.
+   * @param transaction.experimental Has to be `true` to acknowledge that the batch deposit is experimental.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters, the same as the ones accepted by {@link deposit}.
+   * @returns The response of the broadcasted L1 transaction which can be used for tracking each deposit.
+   *
+   * @throws {Error} If the batch deposit is not enabled with `transaction.experimental`.
+   * @throws {DepositBelowMinimumError} If the amount of a deposit is below the minimum deposit amount or the dust threshold.
+   * @throws {InsufficientL1FundsError} If the UTXOs do not cover the amount and the fee.
+   */
+  async depositBatch(
+    deposits: {to: Address; amount: BigNumberish}[],
+    transaction: {
+      experimental: boolean;
+      strategy?: SelectionStrategy;
+      opts?: DepositOptions;
+    }
+  ): Promise<DepositBatchResponse> {
+    if (!transaction?.experimental)
+      throw new Error(
+        'Batch deposits are experimental and have to be enabled with `experimental: true`'
+      );
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+    if (deposits.length === 0) throw new Error('No deposits provided');
+
+    const bridgeAddress = await this._providerL2.getBridgeAddress();
+    this._checkDepositAmounts(deposits, bridgeAddress, transaction?.opts);
+    const outputs = encodeDepositOutputs(deposits, bridgeAddress);
+
+    // The order of the outputs is preserved, so that the change is appended at the end.
+    const {selected, feeRate, accounts} = await this._selectL1Utxos(outputs, {
+      ...transaction,
+      bip69: false,
+    });
+    const tx = selected.tx!;
+    await this._signL1Tx(tx, accounts);
+
+    const txid = await this._broadcastL1(tx);
+    return this._toDepositBatchResponse(
+      txid,
+      deposits.map(({to, amount}, i) => ({
+        to,
+        amount: BigInt(amount),
+        vout: 2 * i,
+      })),
+      feeRate
+    );
+  }
+
+  /**
+   * Returns the current lifecycle stage of the batch deposit created by {@link depositBatch},
+   * together with the L2 crediting status of each recipient.
+   *
+   * A recipient is considered credited once the L2 priority transaction is executed successfully
+   * and transfers the base token to the recipient. Since the bridge does not specify batch deposits
+   * (see {@link depositBatch}), this only reflects the transfers of that single L2 transaction.
+   *
+   * @param txid The transaction ID (txid) of the L1 batch deposit transaction.
+   */
+  async getDepositBatchStatus(txid: string): Promise<DepositBatchDetails> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+
+    const {deposits} = parseDepositTransaction(
+      await this._providerL1.getRawTransaction(txid),
+      await this._providerL2.getBridgeAddress(),
+      this._network
+    );
+    return await this._getDepositBatchDetails(txid, deposits);
+  }
+
+  /**
+   * Verifies that the deposit is included in a block of the L1 network using simplified payment
+   * verification (SPV), rather than trusting the status reported by the L1 provider.
+   *
+   * The Merkle proof of the deposit transaction is verified against the Merkle root of the block
+   * header, and the proof-of-work of the block and of the following headers is verified down to
+   * the required number of confirmations.
+   *
+   * The headers are fetched from the L1 provider as well, and each only has to meet the target
+   * encoded in its own `bits`, which may be as high as the minimal proof-of-work of the network.
+   * A malicious L1 provider can therefore forge the headers of a fake chain at that difficulty
+   * (about 2^32 hashes per header on mainnet). Unless `minChainWork` is provided, the verification
+   * only proves that the L1 provider did this work. To make forging the confirmations as expensive
+   * as mining them, pass the work expected from the real chain, e.g. the number of confirmations
+   * times the work of a block at the current difficulty, taken from a trusted source.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param [opts] The options for verifying.
+   * @param [opts.confirmations] The required number of confirmations, whose headers are verified. Defaults to 1.
+   * @param [opts.minChainWork] The minimum total work of the verified headers (see {@link utils.getBlockWork}).
+   * @param [opts.powLimitBits] The compact encoding of the minimal proof-of-work target of the network. Defaults to
+   * the one of the known network matching the L1 network configuration (see {@link utils.POW_LIMIT_BITS}).
+   * @returns The block containing the deposit transaction, the number of its confirmations and the total work
+   * of the verified headers.
+   *
+   * @throws {Error} If the transaction is not a deposit, does not have the required number of confirmations,
+   * any of the proofs is invalid, the verified headers do not have the minimum total work, or the minimal
+   * proof-of-work of the L1 network is unknown.
+   */
+  async verifyDepositInclusion(
+    txid: string,
     opts?: {
-      feePerByte: bigint;
-      alwaysChange?: boolean;
-      dust?: number;
-      dustRelayFeeRate?: bigint;
+      confirmations?: number;
+      minChainWork?: bigint;
+      powLimitBits?: number;
+    }
+  ): Promise<DepositInclusion> {
+    const provider = this._providerL1;
+    if (!provider) throw new Error('L1 provider is not initialized');
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+    if (
+      !provider.getTxOutProof ||
+      !provider.getBlockHeader ||
+      !provider.getBlockHash
+    )
+      throw new Error('L1 provider does not support SPV proofs');
+
+    const {confirmations = 1, minChainWork} = opts ?? {};
+    const deposit = parseDepositTransaction(
+      await provider.getRawTransaction(txid),
+      await this._providerL2.getBridgeAddress(),
+      this._network
+    );
+    if (deposit.txid !== txid)
+      throw new Error(`Raw transaction does not match ${txid}`);
+    if (deposit.errors.length > 0)
+      throw new Error(
+        `Transaction ${txid} is not a deposit: ${deposit.errors.join(', ')}`
+      );
+
+    const status = await provider.getTxStatus(txid);
+    if (!status?.confirmed || status.blockHeight === undefined)
+      throw new Error(`Deposit ${txid} is not included in a block`);
+    if (status.confirmations < confirmations)
+      throw new Error(
+        `Deposit ${txid} has ${status.confirmations} confirmations, ${confirmations} required`
+      );
+
+    // The weakest minimal proof-of-work among the networks sharing the configuration is accepted.
+    const presets = Object.entries(BTC_NETWORKS)
+      .filter(([, network]) => isBtcNetworkEq(network, this._network))
+      .map(([name]) => POW_LIMIT_BITS[name as BitcoinNetworkName]);
+    if (opts?.powLimitBits === undefined && presets.length === 0)
+      throw new Error(
+        'L1 network does not match a known network, `powLimitBits` is required'
+      );
+    const powLimitBits = opts?.powLimitBits ?? Math.max(...presets);
+    let header = verifyTxOutProof(await provider.getTxOutProof(txid), txid);
+    const {hash: blockHash} = header;
+    const {blockHeight} = status;
+    if (blockHash !== (await provider.getBlockHash(blockHeight)))
+      throw new Error(
+        `Block ${blockHash} is not in the main chain at height ${blockHeight}`
+      );
+    let chainWork = 0n;
+    for (let depth = 1; ; depth++) {
+      if (!hasValidProofOfWork(header, powLimitBits))
+        throw new Error(`Block ${header.hash} has invalid proof-of-work`);
+      chainWork += getBlockWork(header);
+      if (depth >= confirmations) break;
+
+      const hash = await provider.getBlockHash(blockHeight + depth);
+      const next = parseBlockHeader(await provider.getBlockHeader(hash));
+      if (next.hash !== hash || next.prevHash !== header.hash)
+        throw new Error(`Block ${hash} does not extend block ${header.hash}`);
+      header = next;
+    }
+
+    if (minChainWork !== undefined && chainWork < minChainWork)
+      throw new Error(
+        `Headers from block ${blockHash} have ${chainWork} chain work, ${minChainWork} required`
+      );
+
+    return {
+      blockHash,
+      blockHeight,
+      confirmations: status.confirmations,
+      chainWork,
     };
-  }): Promise<string> {
+  }
+
+  /**
+   * Waits for the deposit to be included in an L2 block.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param [opts] The options for waiting.
+   * @param [opts.l1Confirmations] The minimum number of L1 confirmations of the deposit transaction. Defaults to 1.
+   * The confirmations are counted by the L1 provider, which has to know the transaction (e.g. a `bitcoind`
+   * node with the transaction index). Set it to 0 to only wait for the L2 inclusion.
+   * @param [opts.timeout] The number of milliseconds after which waiting fails.
+   * @param [opts.signal] The signal for aborting the waiting.
+   * @returns A promise that resolves to the receipt of the L2 priority transaction.
+   *
+   * @throws {Error} If the timeout is exceeded or the waiting is aborted.
+   */
+  async waitForDeposit(
+    txid: string,
+    opts?: {
+      l1Confirmations?: number;
+      timeout?: number;
+      signal?: AbortSignal;
+    }
+  ): Promise<TransactionReceipt> {
+    const {l1Confirmations = 1, timeout, signal} = opts ?? {};
+    const deadline = Date.now() + (timeout ?? Infinity);
+
+    while (!signal?.aborted) {
+      const details = await this.getDepositStatus(txid);
+      if (details.receipt && details.l1Confirmations >= l1Confirmations)
+        return details.receipt;
+
+      if (Date.now() >= deadline)
+        throw new Error(`Timeout exceeded while waiting for deposit ${txid}`);
+      await sleepUntil(DEPOSIT_POLLING_INTERVAL, deadline, signal);
+    }
+    throw new Error('Waiting for deposit was aborted');
+  }
+
+  /**
+   * Returns the current lifecycle stage of the withdrawal initiated on L2 by `AdapterL2.withdraw`:
+   * included in an L2 block, committed, proven or executed on L1, or paid out to the L1 recipient.
+   *
+   * The withdrawal is decoded from the `Withdrawal` event of the L2 base token in the receipt,
+   * while the L1 recipient is decoded from the calldata of the `withdraw` call. If the withdrawal
+   * is initiated by another contract, the L1 recipient is unknown and the payout is not searched.
+   * The payout is the L1 transaction which spends the outputs of the bridge address, references the
+   * L1 batch of the withdrawal and pays the withdrawn amount after the L1 fee to the L1 recipient
+   * (see {@link _findWithdrawalPayout}). It is searched among the transactions received by the
+   * recipient, which the L1 provider has to be able to list (e.g. the recipient address is imported
+   * into the `bitcoind` wallet), so that the payout is found after it is spent as well.
+   *
+   * @param l2TxHash The hash of the L2 withdrawal transaction.
+   *
+   * @throws {Error} If the L2 transaction is not a withdrawal.
+   */
+  async getWithdrawalStatus(l2TxHash: string): Promise<WithdrawalDetails> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+
+    const receipt = await this._providerL2.getTransactionReceipt(l2TxHash);
+    if (!receipt || !receipt.blockNumber)
+      return {status: WithdrawalStatus.NotFound, l2TxHash};
+    if (receipt.status === 0)
+      return {status: WithdrawalStatus.Failed, l2TxHash, receipt};
+
+    const log = receipt.logs.find(
+      log =>
+        isAddressEq(log.address, L2_BASE_TOKEN_ADDRESS) &&
+        L2_BASE_TOKEN_ABI.parseLog(log)?.name === 'Withdrawal'
+    );
+    if (!log) throw new Error(`Transaction ${l2TxHash} is not a withdrawal`);
+    const event = L2_BASE_TOKEN_ABI.parseLog(log)!;
+
+    // The event only holds the hash of the indexed L1 recipient, so it is decoded from the calldata.
+    let to: string | undefined;
+    const tx = await this._providerL2.getTransaction(l2TxHash);
+    try {
+      const [receiver] = L2_BASE_TOKEN_ABI.decodeFunctionData(
+        'withdraw',
+        tx.data
+      );
+      if (ethers.keccak256(receiver) === event.args._l1Receiver.hash)
+        to = ethers.toUtf8String(receiver);
+    } catch {
+      // The withdrawal is initiated by a contract, so the calldata is not the `withdraw` call.
+    }
+
+    const details: WithdrawalDetails = {
+      status: WithdrawalStatus.Included,
+      l2TxHash,
+      receipt,
+      from: event.args._l2Sender,
+      to,
+      // The payout is made in whole satoshi.
+      amount: l2UnitsToSats(event.args._amount, 'floor'),
+      l1BatchNumber: receipt.l1BatchNumber ?? undefined,
+    };
+    if (details.l1BatchNumber === undefined) return details;
+
+    const batch = await this._providerL2.getL1BatchDetails(
+      details.l1BatchNumber
+    );
+    details.batch = batch;
+    if (batch.executeTxHash) details.status = WithdrawalStatus.Executed;
+    else if (batch.proveTxHash) details.status = WithdrawalStatus.Proven;
+    else if (batch.commitTxHash) details.status = WithdrawalStatus.Committed;
+    if (details.status !== WithdrawalStatus.Executed || !to) return details;
+
+    const payout = await this._findWithdrawalPayout(details, log);
+    if (payout) {
+      details.status = WithdrawalStatus.PaidOut;
+      details.payoutTxid = payout.txid;
+      details.payoutVout = payout.vout;
+    }
+    return details;
+  }
+
+  /**
+   * Waits for the withdrawn BTC to be paid to the L1 recipient.
+   *
+   * @param l2TxHash The hash of the L2 withdrawal transaction.
+   * @param [opts] The options for waiting.
+   * @param [opts.timeout] The number of milliseconds after which waiting fails.
+   * @param [opts.signal] The signal for aborting the waiting.
+   * @returns A promise that resolves to the details of the paid out withdrawal.
+   *
+   * @throws {Error} If the withdrawal has failed, the timeout is exceeded or the waiting is aborted.
+   */
+  async waitForWithdrawalPayout(
+    l2TxHash: string,
+    opts?: {timeout?: number; signal?: AbortSignal}
+  ): Promise<WithdrawalDetails> {
+    const {timeout, signal} = opts ?? {};
+    const deadline = Date.now() + (timeout ?? Infinity);
+
+    while (!signal?.aborted) {
+      const details = await this.getWithdrawalStatus(l2TxHash);
+      if (details.status === WithdrawalStatus.PaidOut) return details;
+      if (details.status === WithdrawalStatus.Failed)
+        throw new Error(`Withdrawal ${l2TxHash} has failed`);
+
+      if (Date.now() >= deadline)
+        throw new Error(
+          `Timeout exceeded while waiting for withdrawal ${l2TxHash}`
+        );
+      await sleepUntil(WITHDRAWAL_POLLING_INTERVAL, deadline, signal);
+    }
+    throw new Error('Waiting for withdrawal payout was aborted');
+  }
+
+  /**
+   * Estimates the deposit by running the same UTXO selection as {@link deposit}, without signing
+   * or broadcasting the transaction.
+   *
+   * @param transaction The deposit transaction request.
+   * @param transaction.to The address that will receive the deposited tokens on L2.
+   * @param transaction.amount The amount of the token to deposit.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided. If neither is provided, the L1 gas price reported by the L2 network is used.
+   * @param [transaction.opts.minFeePerByte] The minimum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.maxFeePerByte] The maximum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.alwaysChange] Weather to always create change, even if less than dust threshold.
+   * @param [transaction.opts.dust] The vbyte threshold below which outputs are considered dust and avoided.
+   * @param [transaction.opts.dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   * @param [transaction.opts.minConf] The minimum number of confirmations of the spent UTXOs. Defaults to 1.
+   * @param [transaction.opts.maxConf] The maximum number of confirmations of the spent UTXOs.
+   * @param [transaction.opts.includeOutpoints] The outpoints (`txid:vout`) which are allowed to be spent.
+   * @param [transaction.opts.excludeOutpoints] The outpoints (`txid:vout`) which must not be spent.
+   * @param [transaction.opts.utxoFilter] Returns whether the UTXO can be spent, e.g. it carries no inscriptions or runes.
+   * @param [transaction.opts.maxInputs] The maximum number of inputs of the transaction.
+   * @param [transaction.opts.minDepositAmount] The minimum amount in satoshi which the bridge credits for a deposit.
+   * @returns The selected inputs, the outputs, the size and the fee of the deposit transaction.
+   *
+   * @throws {DepositBelowMinimumError} If the amount is below the minimum deposit amount or the dust threshold.
+   * @throws {InsufficientL1FundsError} If the UTXOs do not cover the amount and the fee.
+   */
+  async estimateDeposit(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<DepositEstimate> {
+    const {selected, feeRate} = await this._selectDepositUtxos(transaction);
+    const bridgeAddress = await this._providerL2!.getBridgeAddress();
+
+    const outputs: DepositEstimate['outputs'] = [];
+    for (const output of selected.outputs) {
+      const script =
+        'script' in output
+          ? output.script
+          : btc.OutScript.encode(
+              btc.Address(this._network).decode(output.address)
+            );
+      const address = 'address' in output ? output.address : undefined;
+      outputs.push({
+        type: !address
+          ? 'op_return'
+          : address === bridgeAddress
+          ? 'bridge'
+          : 'change',
+        address,
+        script: hex.encode(script),
+        amount: output.amount,
+      });
+    }
+
+    const vsize = toVsize(selected.weight);
+    const fee = selected.fee!;
+    return {
+      inputs: selected.inputs.map(input => ({
+        txid: hex.encode(input.txid!),
+        vout: input.index!,
+        amount: getPrevOut(input).amount as bigint,
+      })),
+      outputs,
+      vsize,
+      fee,
+      feePerByte: feeRate.feePerByte,
+      feeRateSource: feeRate.source,
+      effectiveFeeRate: Number(fee) / vsize,
+      change: outputs
+        .filter(output => output.type === 'change')
+        .reduce((sum, output) => sum + output.amount, 0n),
+    };
+  }
+
+  /**
+   * Bumps the fee of a deposit transaction which is stuck in the mempool.
+   *
+   * The `rbf` method replaces the deposit with a transaction that has the same bridge and
+   * `OP_RETURN` outputs in the same order, signals BIP-125 replaceability and pays the higher fee.
+   * Additional UTXOs are spent if the original inputs do not cover the higher fee.
+   *
+   * The `cpfp` method broadcasts a child transaction which spends the change output of the
+   * deposit and pays a fee high enough for both transactions to reach the new fee rate.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param opts The fee bumping options.
+   * @param opts.newFeePerByte The new amount of satoshi per vbyte.
+   * @param [opts.method] The fee bumping method, either `rbf` or `cpfp`. Defaults to `rbf`.
+   * @param [opts.strategy] The UTXO selection strategy for the additional inputs of the replacement.
+   * @param [opts.incrementalFeePerByte] The incremental relay fee rate of the L1 nodes in satoshi per vbyte,
+   * which the replacement has to pay for its own size on top of the fee of the original. Defaults to `1`.
+   * @returns The response of the deposit, which is the replacement in case of the `rbf` method.
+   *
+   * @throws {Error} If the transaction is not a deposit, the new fee rate is not higher, the deposit does not
+   * signal replaceability in case of the `rbf` method, or the change output does not cover the fee of the child
+   * in case of the `cpfp` method.
+   */
+  async bumpDepositFee(
+    txid: string,
+    opts: {
+      newFeePerByte: bigint;
+      method?: 'rbf' | 'cpfp';
+      strategy?: SelectionStrategy;
+      incrementalFeePerByte?: bigint;
+    }
+  ): Promise<DepositResponse> {
     if (!this._providerL1) throw new Error('L1 provider is not initialized');
     if (!this._providerL2) throw new Error('L2 provider is not initialized');
 
-    const {to, amount, strategy = 'default', opts} = transaction;
+    const {
+      newFeePerByte,
+      method = 'rbf',
+      strategy = 'default',
+      incrementalFeePerByte = DEFAULT_INCREMENTAL_RELAY_FEE,
+    } = opts;
+    const {tx, prevouts, fee} = await this._getL1Transaction(txid);
+    if (newFeePerByte * BigInt(tx.vsize) <= fee)
+      throw new Error('New fee rate must be higher than the current fee rate');
+    if (
+      method === 'rbf' &&
+      Array.from(
+        {length: tx.inputsLength},
+        (_, i) => tx.getInput(i).sequence!
+      ).every(sequence => sequence >= 0xfffffffe)
+    )
+      throw new Error(`Deposit ${txid} does not signal BIP-125 replaceability`);
+
+    const {accounts, changeAddress} = await this._getL1Accounts();
+    await this._checkL1Network(accounts);
+    const bridgeAddress = await this._providerL2.getBridgeAddress();
+    const outputs = [];
+    let change: {index: number; account: L1Account} | undefined;
+    let hasBridgeOutput = false;
+    for (let i = 0; i < tx.outputsLength; i++) {
+      const {script, amount} = tx.getOutput(i);
+      // The `OP_RETURN` output carrying the L2 receiver has no address.
+      const address =
+        script![0] === btc.OP.RETURN
+          ? undefined
+          : tx.getOutputAddress(i, this._network);
+      const account = accounts.find(account => account.address === address);
+      if (account) change = {index: i, account};
+      else outputs.push({script: script!, amount: amount!});
+      if (address === bridgeAddress) hasBridgeOutput = true;
+    }
+    if (!hasBridgeOutput)
+      throw new Error(`Transaction ${txid} is not a deposit`);
+
+    if (method === 'cpfp') {
+      if (!change)
+        throw new Error(`Deposit ${txid} has no change output to spend`);
+
+      const [changeInput] = await this._getInputs(
+        [
+          {
+            txid,
+            vout: change.index,
+            amount: tx.getOutput(change.index).amount!,
+            account: change.account,
+          },
+        ],
+        RBF_SEQUENCE
+      );
+      // The estimator throws rather than returning nothing when the required input is short.
+      const selectChild = (feePerByte: bigint) => {
+        try {
+          return btc.selectUTXO([], [], 'all', {
+            requiredInputs: [changeInput],
+            changeAddress,
+            alwaysChange: true,
+            feePerByte,
+            createTx: true,
+            network: this._network,
+          });
+        } catch {
+          return undefined;
+        }
+      };
+
+      const probe = selectChild(1n);
+      if (!probe) throw new Error('Change output does not cover the child fee');
+      // The child pays for the missing fee of the parent as well as for itself.
+      const childVsize = toVsize(probe.weight);
+      const childFee = newFeePerByte * BigInt(tx.vsize + childVsize) - fee;
+      const child = selectChild(
+        (childFee + BigInt(childVsize) - 1n) / BigInt(childVsize)
+      );
+      if (!child || !child.tx)
+        throw new Error('Change output does not cover the child fee');
+
+      await this._signL1Tx(child.tx, [change.account]);
+      await this._broadcastL1(child.tx);
+      return this._toDepositResponse(txid, {
+        feePerByte: newFeePerByte,
+        source: 'fixed',
+      });
+    }
+
+    const scripts = new Map<string, L1Account>();
+    for (const account of accounts) {
+      const {spend} = await this._getSpend(account);
+      scripts.set(hex.encode(spend.script), account);
+    }
+    const requiredUtxos = [];
+    for (const prevout of prevouts) {
+      const account = scripts.get(hex.encode(prevout.script));
+      if (!account)
+        throw new Error(`Deposit ${txid} spends outputs of another account`);
+      requiredUtxos.push({...prevout, account});
+    }
+    const requiredInputs = await this._getInputs(requiredUtxos, RBF_SEQUENCE);
+    const spent = new Set(prevouts.map(p => `${p.txid}:${p.vout}`));
+    const utxos = await this._listUnspent(accounts);
+    const inputs = await this._getInputs(
+      utxos.filter(utxo => !spent.has(`${utxo.txid}:${utxo.vout}`)),
+      RBF_SEQUENCE
+    );
+
+    // The order of the outputs is preserved, so that each deposit of a batch stays directly
+    // followed by its `OP_RETURN` output and keeps its index.
+    const selected = btc.selectUTXO(inputs, outputs, strategy, {
+      requiredInputs,
+      changeAddress,
+      feePerByte: newFeePerByte,
+      bip69: false,
+      createTx: true,
+      network: this._network,
+      allowUnknownOutputs: true, // required for OP_RETURN
+    });
+    if (!selected || !selected.tx)
+      throw new Error('UTXO selection strategy failed');
+    // BIP-125 rule 4: the replacement pays for its own relay on top of the fee of the original.
+    const requiredFee =
+      fee + incrementalFeePerByte * BigInt(toVsize(selected.weight));
+    if (selected.fee! < requiredFee)
+      throw new Error(
+        `Replacement fee of ${selected.fee} satoshi is below the required ${requiredFee} satoshi`
+      );
+
+    await this._signL1Tx(selected.tx, accounts);
+    return this._toDepositResponse(await this._broadcastL1(selected.tx), {
+      feePerByte: newFeePerByte,
+      source: 'fixed',
+    });
+  }
+
+  /**
+   * Creates the unsigned deposit transaction which pays the `amount` to the bridge address
+   * and stores the L2 recipient in the `OP_RETURN` output.
+   *
+   * @param transaction The deposit transaction request.
+   */
+  protected async _createDepositTx(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<btc.Transaction> {
+    const {selected} = await this._selectDepositUtxos(transaction);
+    return selected.tx!;
+  }
+
+  /**
+   * Selects the UTXOs which fund the deposit and returns the selection result
+   * together with the used fee rate.
+   *
+   * @param transaction The deposit transaction request.
+   */
+  protected async _selectDepositUtxos(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<{
+    selected: NonNullable<ReturnType<typeof btc.selectUTXO>>;
+    feeRate: L1FeeRate;
+    accounts: L1Account[];
+  }> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+    if (!this._providerL2) throw new Error('L2 provider is not initialized');
+
+    const {to, amount, strategy, opts} = transaction;
+    const bridgeAddress = await this._providerL2.getBridgeAddress();
+    this._checkDepositAmounts([{amount}], bridgeAddress, opts);
+    const outputs = encodeDepositOutputs([{to, amount}], bridgeAddress);
+    return await this._selectL1Utxos(outputs, {strategy, opts, bip69: true});
+  }
+
+  /**
+   * Selects the UTXOs of the L1 accounts which fund the outputs and returns the selection result
+   * together with the used fee rate and the accounts whose outputs can be spent.
+   *
+   * @param outputs The outputs of the transaction.
+   * @param params The selection parameters.
+   * @param [params.strategy] The UTXO selection strategy.
+   * @param [params.opts] Optional transaction customization parameters.
+   * @param params.bip69 Whether to sort the inputs and outputs according to BIP-69.
+   */
+  protected async _selectL1Utxos(
+    outputs: (
+      | {address: string; amount: bigint}
+      | {script: Uint8Array; amount: bigint}
+    )[],
+    params: {
+      strategy?: SelectionStrategy;
+      opts?: DepositOptions;
+      bip69: boolean;
+    }
+  ): Promise<{
+    selected: NonNullable<ReturnType<typeof btc.selectUTXO>>;
+    feeRate: L1FeeRate;
+    accounts: L1Account[];
+  }> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
+
+    const {strategy = 'default', opts, bip69} = params;
+
+    const {accounts, changeAddress} = await this._getL1Accounts();
+    await this._checkL1Network(accounts);
+    const inputs = await this._getInputs(
+      await this._listUnspent(accounts, opts),
+      opts?.rbf ? RBF_SEQUENCE : undefined
+    );
+
+    const feeRate = await this._getL1FeeRate(opts);
+
+    const select = (
+      candidates: typeof inputs,
+      selectionStrategy: SelectionStrategy = strategy
+    ) =>
+      btc.selectUTXO(candidates, outputs, selectionStrategy, {
+        changeAddress, // required, address to send change
+        feePerByte: feeRate.feePerByte,
+        bip69,
+        createTx: true,
+        network: this._network,
+        allowUnknownOutputs: true, // required for OP_RETURN
+      });
+
+    let selected = select(inputs);
+    const {maxInputs} = opts ?? {};
+    if (selected && maxInputs && selected.inputs.length > maxInputs) {
+      // Retry with the largest UTXOs only, which is the best chance to stay within the limit.
+      const largest = [...inputs]
+        .sort((a, b) => (a.witnessUtxo.amount < b.witnessUtxo.amount ? 1 : -1))
+        .slice(0, maxInputs);
+      selected = select(largest);
+      if (!selected)
+        throw new Error(
+          `Transaction cannot be funded with at most ${maxInputs} inputs`
+        );
+    }
+
+    if (!selected) {
+      const available = inputs.reduce(
+        (sum, input) => sum + input.witnessUtxo.amount,
+        0n
+      );
+      const required = outputs.reduce((sum, output) => sum + output.amount, 0n);
+      // Accumulating the biggest UTXOs is the best chance to cover the outputs together with the fee.
+      if (!select(inputs, 'accumBiggest'))
+        throw new InsufficientL1FundsError(
+          available,
+          required,
+          `Insufficient L1 funds: ${available} satoshi available, ${required} satoshi and the fee required`
+        );
+    }
+    if (!selected || !selected.tx)
+      throw new Error('UTXO selection strategy failed');
+    return {selected, feeRate, accounts};
+  }
+
+  /**
+   * Checks that the amount of each deposit is not below the minimum deposit amount of the options
+   * and the dust threshold of the bridge output.
+   *
+   * @param deposits The deposits, each with the amount in satoshi.
+   * @param bridgeAddress The L1 address of the bridge.
+   * @param [opts] Optional transaction customization parameters.
+   *
+   * @throws {DepositBelowMinimumError} If the amount of a deposit is below the minimum.
+   */
+  protected _checkDepositAmounts(
+    deposits: {amount: BigNumberish}[],
+    bridgeAddress: string,
+    opts?: DepositOptions
+  ): void {
+    const dust = getDustThreshold(
+      btc.OutScript.encode(btc.Address(this._network).decode(bridgeAddress)),
+      opts?.dustRelayFeeRate
+    );
+    for (const deposit of deposits) {
+      const amount = BigInt(deposit.amount);
+      if (amount < dust)
+        throw new DepositBelowMinimumError(
+          amount,
+          dust,
+          `Deposit amount ${amount} is below the dust threshold of ${dust} satoshi`
+        );
+      const {minDepositAmount} = opts ?? {};
+      if (minDepositAmount !== undefined && amount < minDepositAmount)
+        throw new DepositBelowMinimumError(
+          amount,
+          minDepositAmount,
+          `Deposit amount ${amount} is below the minimum deposit amount of ${minDepositAmount} satoshi`
+        );
+    }
+  }
+
+  /**
+   * Returns the fee rate of the L1 transaction according to the options, clamped to the
+   * minimum and maximum fee rates. The fixed fee rate takes precedence over the fee rate tier,
+   * and the L1 gas price reported by the L2 network is used if neither is provided.
+   *
+   * @param [opts] Optional transaction customization parameters.
+   *
+   * @throws {Error} If the L1 provider has no fee rate estimate for the tier.
+   */
+  protected async _getL1FeeRate(opts?: DepositOptions): Promise<L1FeeRate> {
+    const {feePerByte, feeRateTier, minFeePerByte, maxFeePerByte} = opts ?? {};
+    if (
+      minFeePerByte !== undefined &&
+      maxFeePerByte !== undefined &&
+      minFeePerByte > maxFeePerByte
+    )
+      throw new Error('Minimum fee rate exceeds the maximum fee rate');
+
+    let feeRate: L1FeeRate;
+    if (feePerByte !== undefined) {
+      feeRate = {feePerByte, source: 'fixed'};
+    } else if (feeRateTier) {
+      const estimate = await this._providerL1!.estimateFeeRate(
+        FEE_RATE_TIER_TARGETS[feeRateTier]
+      );
+      if (estimate === null)
+        throw new Error(`No fee rate estimate for the ${feeRateTier} tier`);
+      feeRate = {feePerByte: estimate, source: feeRateTier};
+    } else {
+      if (!this._providerL2) throw new Error('L2 provider is not initialized');
+      feeRate = {
+        feePerByte: await this._providerL2.getL1GasPrice(),
+        source: 'l2',
+      };
+    }
+
+    if (minFeePerByte !== undefined && feeRate.feePerByte < minFeePerByte)
+      feeRate.feePerByte = minFeePerByte;
+    if (maxFeePerByte !== undefined && feeRate.feePerByte > maxFeePerByte)
+      feeRate.feePerByte = maxFeePerByte;
+    return feeRate;
+  }
+
+  /**
+   * Returns the L1 accounts whose outputs are spent by the wallet, together with the address
+   * which receives the change. By default, only the associated L1 account is used.
+   */
+  protected async _getL1Accounts(): Promise<{
+    accounts: L1Account[];
+    changeAddress: string;
+  }> {
+    return {
+      accounts: [{address: this._address, signer: this._signer}],
+      changeAddress: this._address,
+    };
+  }
+
+  /**
+   * Checks that the signers and the addresses of the L1 accounts, as well as the chain of
+   * the L1 node, belong to the configured L1 network. This prevents signing transactions which
+   * are invalid or spend the funds on a different network.
+   *
+   * @param accounts The L1 accounts whose outputs are spent.
+   *
+   * @throws {Error} If the L1 accounts or the L1 node do not match the L1 network.
+   */
+  protected async _checkL1Network(accounts: L1Account[]): Promise<void> {
+    for (const account of accounts) {
+      try {
+        btc.Address(this._network).decode(account.address);
+      } catch {
+        throw new Error(
+          `Address ${account.address} does not belong to the L1 network`
+        );
+      }
+      const {spend} = await this._getSpend(account);
+      if (spend.address !== account.address)
+        throw new Error(
+          `Address ${account.address} does not match the signing key`
+        );
+    }
 
-    const privateKey = btc.WIF(this._network).decode(this._signingKey);
-    const publicKey = secp256k1.getPublicKey(privateKey, true);
-    const addressType = btc.Address(this._network).decode(this._address).type;
+    const networkName = await this._providerL1?.getNetworkName?.();
+    if (
+      networkName &&
+      !isBtcNetworkEq(BTC_NETWORKS[networkName], this._network)
+    )
+      throw new Error(
+        `L1 node is connected to ${networkName}, which does not match the L1 network`
+      );
+  }
+
+  /**
+   * Returns the unspent outputs of the L1 accounts with their values in satoshi.
+   *
+   * @param accounts The L1 accounts whose outputs are listed.
+   */
+  protected async _listUnspent(
+    accounts: L1Account[],
+    opts?: DepositOptions
+  ): Promise<
+    {
+      txid: string;
+      vout: number;
+      amount: bigint;
+      confirmations: number;
+      account: L1Account;
+    }[]
+  > {
+    if (accounts.length === 0) return [];
+    const byAddress = new Map(
+      accounts.map(account => [account.address, account])
+    );
+    const include = opts?.includeOutpoints
+      ? new Set(opts.includeOutpoints)
+      : undefined;
+    const exclude = new Set(opts?.excludeOutpoints);
+
+    const utxos = await this._providerL1!.listUnspent(
+      [...byAddress.keys()],
+      opts?.minConf,
+      opts?.maxConf
+    );
+    const result = [];
+    for (const utxo of utxos) {
+      const outpoint = `${utxo.txid}:${utxo.vout}`;
+      if (!byAddress.has(utxo.address)) continue;
+      if (include && !include.has(outpoint)) continue;
+      if (exclude.has(outpoint)) continue;
+      if (opts?.utxoFilter && !(await opts.utxoFilter(utxo))) continue;
+      result.push({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        amount: btc.Decimal.decode(String(utxo.amount)),
+        confirmations: utxo.confirmations,
+        account: byAddress.get(utxo.address)!,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Returns the payment which is used for spending the outputs of the L1 account.
+   *
+   * @param account The L1 account.
+   */
+  protected async _getSpend(account: L1Account): Promise<{
+    spend: P2Ret | P2TROut;
+    addressType: string;
+  }> {
+    const publicKey = await account.signer.getPublicKey();
+    const addressType = btc.Address(this._network).decode(account.address).type;
 
     let spend: P2Ret | P2TROut;
     switch (addressType) {
@@ -82,64 +1271,320 @@ export abstract class AdapterL1 {
       default:
         throw new Error(`Unsupported address type: ${addressType}`);
     }
+    return {spend, addressType};
+  }
 
-    const utxos: UnspentTransactionOutput[] = await this._providerL1.command(
-      'listunspent',
-      1,
-      null,
-      [this._address]
-    );
-
+  /**
+   * Returns the transaction inputs which spend the given outputs of the L1 accounts.
+   *
+   * @param utxos The outputs of the L1 accounts with their values in satoshi.
+   * @param [sequence] The sequence number of the inputs.
+   */
+  protected async _getInputs(
+    utxos: {txid: string; vout: number; amount: bigint; account: L1Account}[],
+    sequence?: number
+  ) {
     const inputs = [];
     for (const utxo of utxos) {
+      const {spend, addressType} = await this._getSpend(utxo.account);
       inputs.push({
         ...spend,
         txid: hex.decode(utxo.txid),
         index: utxo.vout,
+        sequence,
         witnessUtxo: {
           script: spend.script,
-          amount: btc.Decimal.decode(String(utxo.amount)),
+          amount: utxo.amount,
         },
         nonWitnessUtxo:
           addressType === 'pkh'
-            ? hex.decode(
-                await this._providerL1.command('getrawtransaction', utxo.txid)
-              )
+            ? hex.decode(await this._providerL1!.getRawTransaction(utxo.txid))
             : undefined,
       });
     }
+    return inputs;
+  }
 
-    const outputs = [
-      {
-        address: await this._providerL2.getBridgeAddress(),
-        amount: BigInt(amount),
+  /**
+   * Signs the inputs which spend the outputs of the L1 accounts and finalizes the transaction.
+   *
+   * @param tx The L1 transaction.
+   * @param accounts The L1 accounts whose outputs are spent.
+   */
+  protected async _signL1Tx(
+    tx: btc.Transaction,
+    accounts: L1Account[]
+  ): Promise<void> {
+    for (const account of accounts) {
+      const script = hex.encode((await this._getSpend(account)).spend.script);
+      const inputIndexes = [];
+      for (let i = 0; i < tx.inputsLength; i++) {
+        const prevScript = getPrevOut(tx.getInput(i)).script as Uint8Array;
+        if (hex.encode(prevScript) === script) inputIndexes.push(i);
+      }
+      if (inputIndexes.length > 0)
+        await account.signer.signInputs(tx, inputIndexes);
+    }
+    tx.finalize();
+  }
+
+  /**
+   * Returns the broadcasted L1 transaction together with the outputs it spends.
+   *
+   * @param txid The transaction ID (txid) of the L1 transaction.
+   */
+  protected async _getL1Transaction(txid: string): Promise<{
+    tx: btc.Transaction;
+    prevouts: {
+      txid: string;
+      vout: number;
+      amount: bigint;
+      script: Uint8Array;
+    }[];
+    fee: bigint;
+  }> {
+    const provider = this._providerL1!;
+    const tx = btc.Transaction.fromRaw(
+      hex.decode(await provider.getRawTransaction(txid)),
+      {allowUnknownOutputs: true}
+    );
+
+    const prevouts = [];
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const input = tx.getInput(i);
+      const prevTxid = hex.encode(input.txid!);
+      const prevTx = btc.Transaction.fromRaw(
+        hex.decode(await provider.getRawTransaction(prevTxid)),
+        {allowUnknownOutputs: true}
+      );
+      const output = prevTx.getOutput(input.index!);
+      prevouts.push({
+        txid: prevTxid,
+        vout: input.index!,
+        amount: output.amount!,
+        script: output.script!,
+      });
+    }
+
+    let fee = prevouts.reduce((sum, prevout) => sum + prevout.amount, 0n);
+    for (let i = 0; i < tx.outputsLength; i++) fee -= tx.getOutput(i).amount!;
+    return {tx, prevouts, fee};
+  }
+
+  /**
+   * Returns the L2 priority transaction which credits the deposit, or `null` if the sequencer
+   * has not picked up the deposit yet. The sequencer uses the L1 transaction ID as the hash
+   * of the priority transaction, both byte orders are checked.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   */
+  protected async _getDepositL2Transaction(
+    txid: string
+  ): Promise<TransactionResponse | null> {
+    const hashes = [`0x${txid}`, `0x${hex.encode(hex.decode(txid).reverse())}`];
+    for (const hash of hashes) {
+      const tx = await this._providerL2!.getTransaction(hash);
+      if (tx) return tx;
+    }
+    return null;
+  }
+
+  /**
+   * Creates the {@link DepositResponse} for the broadcasted deposit transaction.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param [feeRate] The fee rate of the L1 deposit transaction.
+   */
+  protected _toDepositResponse(
+    txid: string,
+    feeRate?: L1FeeRate
+  ): DepositResponse {
+    return {
+      hash: txid,
+      feeRate,
+      getStatus: () => this.getDepositStatus(txid),
+      waitL1Commit: async (confirmations = 1, opts) => {
+        const {timeout, signal} = opts ?? {};
+        const deadline = Date.now() + (timeout ?? Infinity);
+
+        while (!signal?.aborted) {
+          const status = await this._providerL1!.getTxStatus(txid);
+          if (status && status.confirmations >= confirmations) return status;
+
+          if (Date.now() >= deadline)
+            throw new Error(
+              `Timeout exceeded while waiting for deposit ${txid} to be confirmed`
+            );
+          await sleepUntil(DEPOSIT_POLLING_INTERVAL, deadline, signal);
+        }
+        throw new Error('Waiting for deposit confirmations was aborted');
       },
-      {
-        script: btc.Script.encode(['RETURN', hex.decode(to.slice(2))]),
-        amount: 0n,
+      wait: opts => this.waitForDeposit(txid, opts),
+      waitFinalize: async () => {
+        const receipt = await this.waitForDeposit(txid);
+        const tx = await this._providerL2!.getTransaction(receipt.hash);
+        return await tx.waitFinalize();
       },
-    ];
+    };
+  }
 
-    const feePerByte =
-      opts?.feePerByte ?? (await this._providerL2.getL1GasPrice());
+  /**
+   * Creates the {@link DepositBatchResponse} for the broadcasted batch deposit transaction.
+   *
+   * @param txid The transaction ID (txid) of the L1 batch deposit transaction.
+   * @param deposits The deposits of the batch.
+   * @param [feeRate] The fee rate of the L1 batch deposit transaction.
+   */
+  protected _toDepositBatchResponse(
+    txid: string,
+    deposits: BatchDeposit[],
+    feeRate?: L1FeeRate
+  ): DepositBatchResponse {
+    return {
+      ...this._toDepositResponse(txid, feeRate),
+      deposits,
+      getStatus: () => this._getDepositBatchDetails(txid, deposits),
+    };
+  }
 
-    const selected = btc.selectUTXO(inputs, outputs, strategy, {
-      changeAddress: this._address, // required, address to send change
-      feePerByte,
-      bip69: true,
-      createTx: true,
-      network: this._network,
-      allowUnknownOutputs: true, // required for OP_RETURN
-    });
+  /**
+   * Returns the current stage of the batch deposit and the L2 crediting status of its deposits.
+   *
+   * @param txid The transaction ID (txid) of the L1 batch deposit transaction.
+   * @param deposits The deposits of the batch.
+   */
+  protected async _getDepositBatchDetails(
+    txid: string,
+    deposits: BatchDeposit[]
+  ): Promise<DepositBatchDetails> {
+    const details = await this.getDepositStatus(txid);
 
-    if (!selected || !selected.tx)
-      throw new Error('UTXO selection strategy failed');
-    const {tx} = selected;
-    tx.sign(privateKey);
-    tx.finalize();
+    const credited = new Set<string>();
+    if (details.receipt?.status === 1) {
+      for (const log of details.receipt.logs) {
+        if (!isAddressEq(log.address, L2_BASE_TOKEN_ADDRESS)) continue;
+        const event = IERC20.parseLog(log);
+        if (event?.name === 'Transfer')
+          credited.add(event.args.to.toLowerCase());
+      }
+    }
+    return {
+      ...details,
+      deposits: deposits.map(deposit => ({
+        ...deposit,
+        credited: credited.has(deposit.to.toLowerCase()),
+      })),
+    };
+  }
+
+  /**
+   * Returns the output of the L1 recipient which pays out the withdrawal, or `null` if the withdrawal
+   * has not been paid out yet.
+   *
+   * The payout transaction has to spend the outputs of the bridge address and store the txid of one
+   * of the L1 transactions of the batch (commit, prove or execute) in an `OP_RETURN` output. Its
+   * outputs paying the recipient are matched to the withdrawals of the batch to the recipient in the
+   * order of their `Withdrawal` events, so that each withdrawal is matched to its own output, which
+   * has to pay the withdrawn amount after the fee, i.e. at most the fee of the payout transaction less.
+   *
+   * @param details The details of the executed withdrawal, including its L1 recipient and batch.
+   * @param log The `Withdrawal` event of the withdrawal.
+   *
+   * @throws {Error} If the L1 provider cannot list the transactions received by the recipient.
+   */
+  protected async _findWithdrawalPayout(
+    details: WithdrawalDetails,
+    log: Log
+  ): Promise<{txid: string; vout: number} | null> {
+    const provider = this._providerL1!;
+    if (!provider.listReceivedTransactions)
+      throw new Error(
+        'L1 provider does not support listing the received transactions'
+      );
+    const {to, amount, batch, l1BatchNumber} = details;
+
+    // The txids may be stored in either byte order.
+    const batchTxids = [
+      batch!.commitTxHash,
+      batch!.proveTxHash,
+      batch!.executeTxHash,
+    ]
+      .map(hash => hash?.replace(/^0x/, '').toLowerCase() ?? '')
+      .filter(txid => /^[0-9a-f]{64}$/.test(txid))
+      .flatMap(txid => [txid, hex.encode(hex.decode(txid).reverse())]);
+    const bridgeAddress = await this._providerL2!.getBridgeAddress();
+    const [bridgeScript, recipientScript] = [bridgeAddress, to!].map(address =>
+      hex.encode(
+        btc.OutScript.encode(btc.Address(this._network).decode(address))
+      )
+    );
+
+    let rank: number | undefined;
+    for (const txid of await provider.listReceivedTransactions(to!)) {
+      const tx = btc.Transaction.fromRaw(
+        hex.decode(await provider.getRawTransaction(txid)),
+        {allowUnknownOutputs: true}
+      );
+      const references = Array.from(
+        {length: tx.outputsLength},
+        (_, vout) => tx.getOutput(vout).script!
+      ).some(
+        script =>
+          script[0] === btc.OP.RETURN &&
+          batchTxids.some(batchTxid => hex.encode(script).includes(batchTxid))
+      );
+      if (!references) continue;
+      // The outputs spent by the payout are fetched only for the transactions referencing the batch.
+      const {prevouts, fee} = await this._getL1Transaction(txid);
+      if (
+        !prevouts.some(prevout => hex.encode(prevout.script) === bridgeScript)
+      )
+        continue;
+
+      // The rank of the withdrawal among the withdrawals of the batch to the same recipient.
+      if (rank === undefined) {
+        const range = await this._providerL2!.getL1BatchBlockRange(
+          l1BatchNumber!
+        );
+        const logs = range
+          ? await this._providerL2!.getLogs({
+              address: L2_BASE_TOKEN_ADDRESS,
+              topics: [log.topics[0], null, log.topics[2]],
+              fromBlock: range[0],
+              toBlock: range[1],
+            })
+          : [log];
+        rank = logs.findIndex(
+          other =>
+            other.transactionHash === log.transactionHash &&
+            other.index === log.index
+        );
+      }
+
+      const vouts = Array.from(
+        {length: tx.outputsLength},
+        (_, vout) => vout
+      ).filter(
+        vout => hex.encode(tx.getOutput(vout).script!) === recipientScript
+      );
+      const vout = vouts[rank];
+      if (vout === undefined) continue;
+      const value = tx.getOutput(vout).amount!;
+      if (value <= amount! && value >= amount! - fee) return {txid, vout};
+    }
+    return null;
+  }
 
+  /**
+   * Broadcasts the finalized transaction to the L1 network.
+   *
+   * @param tx The finalized transaction.
+   * @returns The transaction ID (txid) of the broadcasted L1 transaction.
+   */
+  protected async _broadcastL1(tx: btc.Transaction): Promise<string> {
+    if (!this._providerL1) throw new Error('L1 provider is not initialized');
     const rawTx = hex.encode(tx.extract());
-    return await this._providerL1.command('sendrawtransaction', rawTx);
+    return await this._providerL1.broadcast(rawTx);
   }
 }
 
@@ -198,13 +1643,18 @@ export abstract class AdapterL2 {
    * @param transaction.to The address of the recipient on L1.
    * @param [transaction.paymasterParams] Paymaster parameters.
    * @param [transaction.overrides] Transaction's overrides which may be used to pass L2 `gasLimit`, `gasPrice`, `value`, etc.
+   * @param [transaction.skipAddressValidation] Whether to skip the validation of the L1 recipient's address.
    * @returns A Promise resolving to a withdrawal transaction response.
+   *
+   * @throws {InvalidL1AddressError} If the address of the recipient cannot receive BTC on the L1 network of the bridge.
+   * @throws {Error} If the amount is not a whole number of satoshi.
    */
   async withdraw(transaction: {
     amount: BigNumberish;
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionResponse> {
     if (!this._providerL2) throw new Error('Provider is not initialized');
     const withdrawTx = await this._providerL2.getWithdrawTx({
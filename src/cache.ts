@@ -0,0 +1,91 @@
+import {ethers} from 'ethers';
+import {RpcCache} from './types';
+
+/**
+ * A `LruCache` implements {@link RpcCache} in memory, evicting the least recently used entry once the capacity
+ * is exceeded.
+ */
+export class LruCache implements RpcCache {
+  /** The maximum number of entries. */
+  readonly capacity: number;
+  /** The entries in the order of use, from the least to the most recently used. */
+  protected _entries: Map<string, any>;
+
+  /**
+   * @param [capacity] The maximum number of entries.
+   *
+   * @example
+   *
+   * import { LruCache, Provider, types } from '@vianetwork/via-ethers';
+   *
+   * const provider = Provider.getDefaultProvider(types.Network.Localhost);
+   * provider.cache = new LruCache(50_000);
+   */
+  constructor(capacity = 10_000) {
+    this.capacity = capacity;
+    this._entries = new Map();
+  }
+
+  async get(key: string): Promise<any | undefined> {
+    if (!this._entries.has(key)) return undefined;
+    const value = this._entries.get(key);
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    return value;
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    if (this._entries.size > this.capacity)
+      this._entries.delete(this._entries.keys().next().value);
+  }
+}
+
+/**
+ * A `FileSystemCache` implements {@link RpcCache} on the file system, storing each entry as a JSON file,
+ * so that the entries survive restarts and are shared between processes. It requires Node.js.
+ */
+export class FileSystemCache implements RpcCache {
+  /** The directory of the entries, which is created when the first entry is stored. */
+  readonly directory: string;
+
+  /**
+   * @param directory The directory of the entries.
+   *
+   * @example
+   *
+   * import { FileSystemCache, Provider, types } from '@vianetwork/via-ethers';
+   *
+   * const provider = Provider.getDefaultProvider(types.Network.Localhost);
+   * provider.cache = new FileSystemCache('.via-cache');
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<any | undefined> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this._getPath(key), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.mkdir(this.directory, {recursive: true});
+    // The entry is renamed into place, so that a concurrent reader never sees it partially written.
+    const path = this._getPath(key);
+    const tempPath = `${path}.${ethers.hexlify(ethers.randomBytes(8))}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value));
+    await fs.rename(tempPath, path);
+  }
+
+  /** Returns the path of the entry, named by the hash of the key. */
+  protected _getPath(key: string): string {
+    return `${this.directory}/${ethers.id(key).slice(2)}.json`;
+  }
+}
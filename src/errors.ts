@@ -0,0 +1,352 @@
+import {ethers, JsonRpcError, JsonRpcPayload} from 'ethers';
+
+/** The reason why an L1 address is rejected. */
+export type InvalidL1AddressReason =
+  | 'malformed'
+  | 'wrong-network'
+  | 'unsupported-type';
+
+/**
+ * Thrown when an L1 address is malformed, belongs to another Bitcoin network or has an unsupported
+ * script type, so that the BTC sent to it could not be spent by the recipient.
+ */
+export class InvalidL1AddressError extends Error {
+  /** The rejected L1 address. */
+  readonly address: string;
+  /** The reason why the address is rejected. */
+  readonly reason: InvalidL1AddressReason;
+
+  /**
+   * @param address The rejected L1 address.
+   * @param reason The reason why the address is rejected.
+   * @param message The error message.
+   */
+  constructor(
+    address: string,
+    reason: InvalidL1AddressReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidL1AddressError';
+    this.address = address;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when the amount of a deposit is below the minimum amount credited by the bridge or below
+ * the dust threshold of the bridge output, so that the deposited BTC would be lost or stuck.
+ */
+export class DepositBelowMinimumError extends Error {
+  /** The deposited amount in satoshi. */
+  readonly amount: bigint;
+  /** The minimum amount in satoshi. */
+  readonly minimum: bigint;
+
+  /**
+   * @param amount The deposited amount in satoshi.
+   * @param minimum The minimum amount in satoshi.
+   * @param message The error message.
+   */
+  constructor(amount: bigint, minimum: bigint, message: string) {
+    super(message);
+    this.name = 'DepositBelowMinimumError';
+    this.amount = amount;
+    this.minimum = minimum;
+  }
+}
+
+/**
+ * Thrown when the UTXOs of the L1 accounts do not cover the amount of the outputs together with
+ * the fee of the transaction.
+ */
+export class InsufficientL1FundsError extends Error {
+  /** The total amount of the spendable UTXOs in satoshi. */
+  readonly available: bigint;
+  /** The total amount of the outputs in satoshi, excluding the fee. */
+  readonly required: bigint;
+
+  /**
+   * @param available The total amount of the spendable UTXOs in satoshi.
+   * @param required The total amount of the outputs in satoshi, excluding the fee.
+   * @param message The error message.
+   */
+  constructor(available: bigint, required: bigint, message: string) {
+    super(message);
+    this.name = 'InsufficientL1FundsError';
+    this.available = available;
+    this.required = required;
+  }
+}
+
+/** A revert decoded from the data returned by the node. */
+export interface DecodedRevert {
+  /** The name of the error, e.g. `Error`, `Panic` or the name of a custom error. */
+  name: string;
+  /** The signature of the error, e.g. `Error(string)`. */
+  signature: string;
+  /** The decoded arguments of the error. */
+  args: any[];
+  /** The message of `Error(string)` or the description of `Panic(uint256)`, `null` for custom errors. */
+  reason: string | null;
+}
+
+// The custom errors by their selector, so that registering the same ABI again does not grow the registry.
+const errorInterfaces = new Map<string, ethers.Interface>();
+
+/**
+ * Registers the custom errors of the `abi`, so that the reverts returned by the node are decoded against them.
+ * The registry is shared by all providers. An error with the same selector as an already registered one replaces it.
+ *
+ * @param abi The ABI declaring the custom errors.
+ *
+ * @example
+ *
+ * import { registerErrorAbi } from '@vianetwork/via-ethers';
+ *
+ * registerErrorAbi(['error InsufficientAllowance(uint256 allowance, uint256 needed)']);
+ */
+export function registerErrorAbi(
+  abi: ethers.Interface | ethers.InterfaceAbi
+): void {
+  ethers.Interface.from(abi).forEachError(error =>
+    errorInterfaces.set(error.selector, new ethers.Interface([error]))
+  );
+}
+
+/**
+ * Removes all the custom errors registered by {@link registerErrorAbi}.
+ *
+ * @example
+ *
+ * import { clearErrorAbis } from '@vianetwork/via-ethers';
+ *
+ * clearErrorAbis();
+ */
+export function clearErrorAbis(): void {
+  errorInterfaces.clear();
+}
+
+/**
+ * Decodes the revert `data` as `Error(string)`, `Panic(uint256)` or a custom error of the registered ABIs.
+ *
+ * @param data The revert data.
+ * @returns The decoded revert, or `null` if the data does not match any known error.
+ *
+ * @example
+ *
+ * import { decodeRevertData } from '@vianetwork/via-ethers';
+ *
+ * const revert = decodeRevertData(
+ *   '0x08c379a0000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000046f6f707300000000000000000000000000000000000000000000000000000000'
+ * );
+ * // {name: 'Error', signature: 'Error(string)', args: ['oops'], reason: 'oops'}
+ */
+export function decodeRevertData(data: string): DecodedRevert | null {
+  if (!ethers.isHexString(data) || ethers.dataLength(data) < 4) return null;
+
+  const {revert, reason} = ethers.AbiCoder.getBuiltinCallException(
+    'call',
+    {data},
+    data
+  );
+  if (revert) return {...revert, args: [...revert.args], reason};
+
+  const iface = errorInterfaces.get(ethers.dataSlice(data, 0, 4));
+  if (!iface) return null;
+  try {
+    const error = iface.parseError(data)!;
+    return {
+      name: error.name,
+      signature: error.signature,
+      args: [...error.args],
+      reason: null,
+    };
+  } catch {
+    // The selector matches, but the data is malformed.
+    return null;
+  }
+}
+
+/**
+ * Thrown when the node rejects a JSON-RPC request. The subclasses classify the common rejections,
+ * so that callers do not have to match the messages of the different nodes.
+ */
+export class RpcError extends Error {
+  /** The JSON-RPC error code. */
+  readonly code: number;
+  /** The JSON-RPC error returned by the node. */
+  readonly error: JsonRpcError['error'];
+  /** The rejected JSON-RPC request. */
+  readonly payload: JsonRpcPayload | null;
+
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = error.code ?? 0;
+    this.error = error;
+    this.payload = payload;
+  }
+}
+
+/** Thrown when the execution of a call or a transaction reverts. */
+export class ExecutionRevertedError extends RpcError {
+  /** The revert data, or `null` if the node returned none. */
+  readonly data: string | null;
+  /** The decoded revert, or `null` if the data does not match any known error. */
+  readonly revert: DecodedRevert | null;
+  /** The message of `Error(string)` or the description of `Panic(uint256)`. */
+  readonly reason: string | null;
+
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'ExecutionRevertedError';
+    this.data = revertData(error.data);
+    this.revert = this.data ? decodeRevertData(this.data) : null;
+    this.reason = this.revert?.reason ?? null;
+  }
+}
+
+/** Thrown when the paymaster of a transaction rejects it during the validation. */
+export class PaymasterValidationError extends ExecutionRevertedError {
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'PaymasterValidationError';
+  }
+}
+
+/** Thrown when the account sending a transaction rejects it during the validation, e.g. on an invalid signature. */
+export class AccountValidationError extends ExecutionRevertedError {
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'AccountValidationError';
+  }
+}
+
+/** Thrown when the nonce of a transaction has already been used by the account. */
+export class NonceTooLowError extends RpcError {
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'NonceTooLowError';
+  }
+}
+
+/** Thrown when the balance of the account does not cover the value and the fee of a transaction. */
+export class InsufficientFundsError extends RpcError {
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/** Thrown when the node rejects a request because its rate limit is exceeded, so the request can be retried later. */
+export class RateLimitedError extends RpcError {
+  /**
+   * @param error The JSON-RPC error returned by the node.
+   * @param payload The rejected JSON-RPC request.
+   * @param message The error message.
+   */
+  constructor(
+    error: JsonRpcError['error'],
+    payload: JsonRpcPayload | null,
+    message: string
+  ) {
+    super(error, payload, message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+function revertData(data: any): string | null {
+  if (ethers.isHexString(data)) return data;
+  if (ethers.isHexString(data?.data)) return data.data;
+  return null;
+}
+
+/**
+ * Classifies the JSON-RPC `error` returned by the node into the matching {@link RpcError}.
+ * The validation errors are matched before the reverts, since their messages mention the revert as well.
+ *
+ * @param payload The rejected JSON-RPC request.
+ * @param error The JSON-RPC error returned by the node.
+ */
+export function toRpcError(
+  payload: JsonRpcPayload | null,
+  error: JsonRpcError['error']
+): RpcError {
+  const message = error.message ?? 'Execution reverted';
+  if (
+    error.code === 429 ||
+    error.code === -32005 ||
+    /rate limit|too many requests/i.test(message)
+  )
+    return new RateLimitedError(error, payload, message);
+  if (/paymaster validation/i.test(message))
+    return new PaymasterValidationError(error, payload, message);
+  if (/account validation|failed to validate the transaction/i.test(message))
+    return new AccountValidationError(error, payload, message);
+  if (/nonce (is )?too (low|small)|nonce has already been used/i.test(message))
+    return new NonceTooLowError(error, payload, message);
+  if (/insufficient funds|not enough balance/i.test(message))
+    return new InsufficientFundsError(error, payload, message);
+  if (
+    error.code === 3 ||
+    /revert/i.test(message) ||
+    revertData(error.data) !== null
+  )
+    return new ExecutionRevertedError(error, payload, message);
+  return new RpcError(error, payload, message);
+}
@@ -1,11 +1,40 @@
 export * as utils from './utils';
 export * as types from './types';
 export {EIP712Signer, Signer} from './signer';
-export {Wallet} from './wallet';
+export {Wallet, WalletL1} from './wallet';
 export {
   SmartAccount,
   ECDSASmartAccount,
   MultisigECDSASmartAccount,
 } from './smart-account';
-export {BrowserProvider, Provider} from './provider';
+export {
+  BrowserProvider,
+  FallbackProvider,
+  Provider,
+  WebSocketProvider,
+} from './provider';
+export {
+  BitcoinCoreProvider,
+  EsploraProvider,
+  InMemoryBitcoinProvider,
+  ordUtxoFilter,
+} from './l1-provider';
+export {BitcoinCoreL1Signer, PrivateKeyL1Signer} from './l1-signer';
+export {FileSystemCache, LruCache} from './cache';
 export {ContractFactory, Contract} from './contract';
+export {
+  AccountValidationError,
+  clearErrorAbis,
+  decodeRevertData,
+  DepositBelowMinimumError,
+  ExecutionRevertedError,
+  InsufficientFundsError,
+  InsufficientL1FundsError,
+  InvalidL1AddressError,
+  NonceTooLowError,
+  PaymasterValidationError,
+  RateLimitedError,
+  registerErrorAbi,
+  RpcError,
+  toRpcError,
+} from './errors';
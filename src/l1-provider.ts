@@ -0,0 +1,812 @@
+import {FetchRequest} from 'ethers';
+import BitcoinClient from 'bitcoin-core';
+import * as btc from '@scure/btc-signer';
+import {hex} from '@scure/base';
+import {BTC_NETWORK, concatBytes, sha256x2} from '@scure/btc-signer/utils';
+import {
+  BitcoinL1Provider,
+  BitcoinNetworkName,
+  L1TransactionStatus,
+  UnspentTransactionOutput,
+} from './types';
+import {
+  BTC_NETWORKS,
+  hasValidProofOfWork,
+  parseBlockHeader,
+  POW_LIMIT_BITS,
+} from './utils';
+
+/** The maximum number of confirmations accepted by the `listunspent` RPC method. */
+const MAX_CONFIRMATIONS = 9_999_999;
+
+/** The number of confirmed transactions returned per page by the address endpoints of the Esplora API. */
+const ESPLORA_CHAIN_PAGE_SIZE = 25;
+
+/** The Bitcoin networks by the chain names returned by the `getblockchaininfo` RPC method. */
+const CHAIN_NETWORKS: Record<string, BitcoinNetworkName> = {
+  main: 'mainnet',
+  test: 'testnet',
+  testnet4: 'testnet4',
+  signet: 'signet',
+  regtest: 'regtest',
+};
+
+/** The Bitcoin networks by the hashes of their genesis blocks. */
+const GENESIS_NETWORKS: Record<string, BitcoinNetworkName> = {
+  '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f': 'mainnet',
+  '000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943': 'testnet',
+  '00000000da84f2bafbbc53dee25a72ae507ff4914b867c565be350b0da8bf043':
+    'testnet4',
+  '00000008819873e925422c1ff0f99f7cc9bbb232af63a077a480a3633bee1ef6': 'signet',
+  '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206': 'regtest',
+};
+
+/**
+ * Returns the `provider` as {@link BitcoinL1Provider}. The `bitcoin-core` client is wrapped
+ * into {@link BitcoinCoreProvider}, while other providers are returned as they are.
+ *
+ * @param provider The provider instance for connecting to a L1 network.
+ */
+export function toBitcoinL1Provider(
+  provider: BitcoinClient | BitcoinL1Provider
+): BitcoinL1Provider {
+  return provider instanceof BitcoinClient
+    ? new BitcoinCoreProvider(provider)
+    : provider;
+}
+
+/**
+ * Returns the UTXO filter which skips the outputs carrying inscriptions or runes, according to the
+ * JSON API of an [`ord`](https://github.com/ordinals/ord) server. Outputs which are not indexed
+ * by the server yet are skipped as well.
+ *
+ * @param url The base URL of the `ord` server.
+ *
+ * @example
+ *
+ * import { ordUtxoFilter } from '@vianetwork/via-ethers';
+ *
+ * const tx = await wallet.deposit({
+ *   to: await wallet.getAddress(),
+ *   amount: 70_000_000n,
+ *   opts: { utxoFilter: ordUtxoFilter('http://127.0.0.1:8080') },
+ * });
+ */
+export function ordUtxoFilter(
+  url: string
+): (utxo: UnspentTransactionOutput) => Promise<boolean> {
+  const baseUrl = url.replace(/\/+$/, '');
+  return async utxo => {
+    const request = new FetchRequest(
+      `${baseUrl}/output/${utxo.txid}:${utxo.vout}`
+    );
+    request.setHeader('accept', 'application/json');
+    const response = await request.send();
+    response.assertOk();
+
+    const output = response.bodyJson;
+    if (output.indexed === false) return false;
+    // The runes are returned either as an array or as an object, depending on the version.
+    return (
+      (output.inscriptions ?? []).length === 0 &&
+      Object.keys(output.runes ?? {}).length === 0
+    );
+  };
+}
+
+/**
+ * A `BitcoinCoreProvider` implements {@link BitcoinL1Provider} using the JSON-RPC API of a `bitcoind` node.
+ * The addresses whose outputs are listed have to be imported into the node wallet.
+ */
+export class BitcoinCoreProvider implements BitcoinL1Provider {
+  /** The `bitcoin-core` client used for sending the JSON-RPC requests. */
+  readonly client: BitcoinClient;
+
+  /**
+   * @param client The `bitcoin-core` client used for sending the JSON-RPC requests.
+   *
+   * @example
+   *
+   * import { BitcoinCoreProvider } from '@vianetwork/via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const provider = new BitcoinCoreProvider(
+   *   new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   *   })
+   * );
+   */
+  constructor(client: BitcoinClient) {
+    this.client = client;
+  }
+
+  async listUnspent(
+    addresses: string[],
+    minConf?: number,
+    maxConf?: number
+  ): Promise<UnspentTransactionOutput[]> {
+    return await this.client.command(
+      'listunspent',
+      minConf ?? 1,
+      maxConf ?? MAX_CONFIRMATIONS,
+      addresses
+    );
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    return await this.client.command('getrawtransaction', txid);
+  }
+
+  async broadcast(rawTx: string): Promise<string> {
+    return await this.client.command('sendrawtransaction', rawTx);
+  }
+
+  async estimateFeeRate(confTarget: number): Promise<bigint | null> {
+    const estimate = await this.client.command('estimatesmartfee', confTarget);
+    if (!estimate?.feerate) return null;
+    // The fee rate is returned in BTC per kvB.
+    const satsPerKvB = btc.Decimal.decode(String(estimate.feerate));
+    return (satsPerKvB + 999n) / 1000n;
+  }
+
+  async getTxStatus(txid: string): Promise<L1TransactionStatus | null> {
+    let tx;
+    try {
+      tx = await this.client.command('getrawtransaction', txid, true);
+    } catch (e: unknown) {
+      // RPC_INVALID_ADDRESS_OR_KEY: No such mempool or blockchain transaction.
+      if (e instanceof Error && 'code' in e && e.code === -5) return null;
+      throw e;
+    }
+    if (!tx.blockhash) return {confirmed: false, confirmations: 0};
+
+    const header = await this.client.command('getblockheader', tx.blockhash);
+    return {
+      confirmed: true,
+      confirmations: tx.confirmations ?? header.confirmations,
+      blockHash: tx.blockhash,
+      blockHeight: header.height,
+    };
+  }
+
+  async getNetworkName(): Promise<BitcoinNetworkName> {
+    const {chain} = await this.client.command('getblockchaininfo');
+    if (!CHAIN_NETWORKS[chain]) throw new Error(`Unsupported chain: ${chain}`);
+    return CHAIN_NETWORKS[chain];
+  }
+
+  async getTxOutProof(txid: string): Promise<string> {
+    return await this.client.command('gettxoutproof', [txid]);
+  }
+
+  async getBlockHeader(blockHash: string): Promise<string> {
+    return await this.client.command('getblockheader', blockHash, false);
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return await this.client.command('getblockhash', height);
+  }
+
+  async listReceivedTransactions(address: string): Promise<string[]> {
+    // The watch-only addresses are included, since the derived addresses are usually imported as such.
+    const [received] = await this.client.command(
+      'listreceivedbyaddress',
+      0,
+      true,
+      true,
+      address
+    );
+    return received?.txids ?? [];
+  }
+}
+
+/**
+ * An `EsploraProvider` implements {@link BitcoinL1Provider} using the
+ * [Esplora REST API](https://github.com/Blockstream/esplora/blob/master/API.md),
+ * which is also served by `mempool.space` and `electrs`. No node wallet is required.
+ */
+export class EsploraProvider implements BitcoinL1Provider {
+  /** The base URL of the Esplora API. */
+  readonly url: string;
+  /** The L1 network configuration. */
+  readonly network: BTC_NETWORK;
+
+  /**
+   * @param url The base URL of the Esplora API.
+   * @param network The L1 network configuration used for decoding addresses, which has to match the one
+   * of the wallet and of the Esplora API.
+   *
+   * @example
+   *
+   * import { EsploraProvider, utils } from '@vianetwork/via-ethers';
+   *
+   * const provider = new EsploraProvider('https://mempool.space/testnet4/api', utils.BTC_NETWORKS.testnet4);
+   */
+  constructor(url: string, network: BTC_NETWORK) {
+    this.url = url.replace(/\/+$/, '');
+    this.network = network;
+  }
+
+  async listUnspent(
+    addresses: string[],
+    minConf?: number,
+    maxConf?: number
+  ): Promise<UnspentTransactionOutput[]> {
+    minConf ??= 1;
+    maxConf ??= MAX_CONFIRMATIONS;
+    const tipHeight = Number(await this._get('/blocks/tip/height'));
+
+    const result: UnspentTransactionOutput[] = [];
+    for (const address of addresses) {
+      const script = btc.OutScript.encode(
+        btc.Address(this.network).decode(address)
+      );
+      const utxos = JSON.parse(await this._get(`/address/${address}/utxo`));
+      for (const utxo of utxos) {
+        const confirmations = utxo.status.confirmed
+          ? tipHeight - utxo.status.block_height + 1
+          : 0;
+        if (confirmations < minConf || confirmations > maxConf) continue;
+        result.push({
+          txid: utxo.txid,
+          vout: utxo.vout,
+          address,
+          label: '',
+          scriptPubKey: hex.encode(script),
+          amount: btc.Decimal.encode(BigInt(utxo.value)),
+          confirmations,
+          spendable: true,
+          solvable: true,
+          parent_descs: [],
+          safe: confirmations > 0,
+        });
+      }
+    }
+    return result;
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    return await this._get(`/tx/${txid}/hex`);
+  }
+
+  async broadcast(rawTx: string): Promise<string> {
+    const request = new FetchRequest(`${this.url}/tx`);
+    request.method = 'POST';
+    request.body = rawTx;
+    request.setHeader('content-type', 'text/plain');
+
+    const response = await request.send();
+    response.assertOk();
+    return response.bodyText.trim();
+  }
+
+  async estimateFeeRate(confTarget: number): Promise<bigint | null> {
+    const estimates: Record<string, number> = JSON.parse(
+      await this._get('/fee-estimates')
+    );
+    // Use the estimate of the closest target which is not longer than requested.
+    const targets = Object.keys(estimates)
+      .map(Number)
+      .filter(target => target <= confTarget)
+      .sort((a, b) => b - a);
+    if (targets.length === 0) return null;
+    return BigInt(Math.ceil(estimates[targets[0]]));
+  }
+
+  async getTxStatus(txid: string): Promise<L1TransactionStatus | null> {
+    const request = new FetchRequest(`${this.url}/tx/${txid}/status`);
+    const response = await request.send();
+    if (response.statusCode === 404) return null;
+    response.assertOk();
+
+    const status = response.bodyJson;
+    if (!status.confirmed) return {confirmed: false, confirmations: 0};
+
+    const tipHeight = Number(await this._get('/blocks/tip/height'));
+    return {
+      confirmed: true,
+      confirmations: tipHeight - status.block_height + 1,
+      blockHash: status.block_hash,
+      blockHeight: status.block_height,
+    };
+  }
+
+  async getNetworkName(): Promise<BitcoinNetworkName> {
+    // All signets, including the custom ones, share the same genesis block.
+    const genesisHash = (await this._get('/block-height/0')).trim();
+    if (!GENESIS_NETWORKS[genesisHash])
+      throw new Error(`Unsupported genesis block: ${genesisHash}`);
+    return GENESIS_NETWORKS[genesisHash];
+  }
+
+  async getTxOutProof(txid: string): Promise<string> {
+    return (await this._get(`/tx/${txid}/merkleblock-proof`)).trim();
+  }
+
+  async getBlockHeader(blockHash: string): Promise<string> {
+    return (await this._get(`/block/${blockHash}/header`)).trim();
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return (await this._get(`/block-height/${height}`)).trim();
+  }
+
+  async listReceivedTransactions(address: string): Promise<string[]> {
+    const txids: string[] = [];
+    // The first page holds the mempool transactions as well, the next ones the confirmed transactions only.
+    let path = `/address/${address}/txs`;
+    let confirmed: any[];
+    do {
+      const txs = JSON.parse(await this._get(path));
+      for (const tx of txs) {
+        if (
+          tx.vout.some((output: any) => output.scriptpubkey_address === address)
+        )
+          txids.push(tx.txid);
+      }
+      confirmed = txs.filter((tx: any) => tx.status.confirmed);
+      path = `/address/${address}/txs/chain/${confirmed[confirmed.length - 1]
+        ?.txid}`;
+    } while (confirmed.length === ESPLORA_CHAIN_PAGE_SIZE);
+    return txids;
+  }
+
+  /**
+   * Sends the `GET` request to the Esplora API and returns the response body.
+   *
+   * @param path The path of the API endpoint.
+   */
+  protected async _get(path: string): Promise<string> {
+    const response = await new FetchRequest(`${this.url}${path}`).send();
+    response.assertOk();
+    return response.bodyText;
+  }
+}
+
+/** The transaction stored by {@link InMemoryBitcoinProvider}. */
+interface InMemoryTransaction {
+  /** The decoded transaction. */
+  tx: btc.Transaction;
+  /** The hex encoded raw transaction. */
+  rawTx: string;
+  /** The height of the block containing the transaction, `undefined` while in the mempool. */
+  blockHeight?: number;
+}
+
+/** The block stored by {@link InMemoryBitcoinProvider}. */
+interface InMemoryBlock {
+  /** The hash of the block. */
+  hash: string;
+  /** The hex encoded 80-byte header of the block. */
+  header: string;
+  /** The transaction IDs (txids) of the transactions of the block. */
+  txids: string[];
+}
+
+/**
+ * An `InMemoryBitcoinProvider` implements {@link BitcoinL1Provider} using an in-memory chain, so that
+ * the L1 flows can be run without a `bitcoind` node, e.g. in unit tests.
+ *
+ * Outputs are created by {@link fund}, broadcasted transactions are accepted into the mempool if
+ * they spend existing unspent outputs, and {@link mine} includes the mempool in new blocks. Scripts
+ * and signatures are not verified, but the inputs have to be finalized. The blocks have valid
+ * headers with the minimal proof-of-work of `regtest`, so that the transactions can be verified
+ * with the proofs returned by {@link getTxOutProof}.
+ */
+export class InMemoryBitcoinProvider implements BitcoinL1Provider {
+  /** The name of the simulated Bitcoin network. */
+  readonly networkName: BitcoinNetworkName;
+  /** The L1 network configuration. */
+  readonly network: BTC_NETWORK;
+  /** The fee rates in satoshi per vbyte returned by {@link estimateFeeRate}, by confirmation target. */
+  feeRates: Record<number, bigint> = {};
+
+  /** The transactions by their transaction ID (txid). */
+  protected _transactions = new Map<string, InMemoryTransaction>();
+  /** The blocks by their height. */
+  protected _blocks: InMemoryBlock[] = [];
+  /** The transaction ID (txid) of the spending transaction, by the spent outpoint (`txid:vout`). */
+  protected _spent = new Map<string, string>();
+  /** The number of funding transactions, which makes their txids unique. */
+  protected _fundings = 0;
+
+  /**
+   * @param [networkName] The name of the simulated Bitcoin network. Defaults to `regtest`.
+   *
+   * @example
+   *
+   * import { InMemoryBitcoinProvider, WalletL1 } from '@vianetwork/via-ethers';
+   *
+   * const PRIVATE_KEY = '<WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const provider = new InMemoryBitcoinProvider();
+   * provider.fund(ADDRESS, 100_000_000n);
+   * const wallet = new WalletL1(PRIVATE_KEY, ADDRESS, provider, provider.network);
+   */
+  constructor(networkName?: BitcoinNetworkName) {
+    this.networkName = networkName ?? 'regtest';
+    this.network = BTC_NETWORKS[this.networkName];
+  }
+
+  /** Returns the height of the chain tip, -1 if no block is mined. */
+  get tipHeight(): number {
+    return this._blocks.length - 1;
+  }
+
+  /**
+   * Creates the coinbase-like transaction paying the amount to the address and mines it,
+   * so that the output can be spent.
+   *
+   * @param address The address which receives the output.
+   * @param amount The amount of the output in satoshi.
+   * @param [confirmations] The number of confirmations of the output, 0 for keeping it in the mempool. Defaults to 1.
+   * @returns The transaction ID (txid) of the funding transaction.
+   */
+  fund(address: string, amount: bigint, confirmations = 1): string {
+    const tx = new btc.Transaction();
+    // The output is added first, since no outputs can be added once an input is finalized.
+    tx.addOutputAddress(address, amount, this.network);
+    tx.addInput({
+      txid: new Uint8Array(32),
+      index: 0xffffffff,
+      // The unique script makes the txid of each funding transaction unique.
+      finalScriptSig: btc.Script.encode([
+        hex.decode((++this._fundings).toString(16).padStart(8, '0')),
+      ]),
+    });
+
+    const txid = this._addTransaction(tx);
+    if (confirmations > 0) this.mine(confirmations);
+    return txid;
+  }
+
+  /**
+   * Mines the blocks. The transactions in the mempool are included in the first block.
+   *
+   * @param [blocks] The number of blocks. Defaults to 1.
+   * @returns The hashes of the mined blocks.
+   */
+  mine(blocks = 1): string[] {
+    const hashes = [];
+    for (let i = 0; i < blocks; i++) {
+      const height = this._blocks.length;
+      const txids = [...this._transactions]
+        .filter(([, tx]) => tx.blockHeight === undefined)
+        .map(([txid, tx]) => {
+          tx.blockHeight = height;
+          return txid;
+        });
+      const header = new Uint8Array(80);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x20000000, true); // version
+      header.set(
+        hex.decode(this._blocks[height - 1]?.hash ?? '00'.repeat(32)).reverse(),
+        4
+      );
+      header.set(this._getMerkleRoot(txids), 36);
+      view.setUint32(68, 1_700_000_000 + height * 600, true); // time
+      view.setUint32(72, POW_LIMIT_BITS.regtest, true);
+      // Half of the nonces meet the `regtest` target on average.
+      let parsed = parseBlockHeader(hex.encode(header));
+      while (!hasValidProofOfWork(parsed)) {
+        view.setUint32(76, parsed.nonce + 1, true);
+        parsed = parseBlockHeader(hex.encode(header));
+      }
+      this._blocks.push({hash: parsed.hash, header: hex.encode(header), txids});
+      hashes.push(parsed.hash);
+    }
+    return hashes;
+  }
+
+  /** Returns the transaction IDs (txids) of the transactions in the mempool. */
+  getMempool(): string[] {
+    return [...this._transactions]
+      .filter(([, tx]) => tx.blockHeight === undefined)
+      .map(([txid]) => txid);
+  }
+
+  async listUnspent(
+    addresses: string[],
+    minConf?: number,
+    maxConf?: number
+  ): Promise<UnspentTransactionOutput[]> {
+    minConf ??= 1;
+    maxConf ??= MAX_CONFIRMATIONS;
+
+    const result: UnspentTransactionOutput[] = [];
+    for (const [txid, {tx, blockHeight}] of this._transactions) {
+      const confirmations = this._getConfirmations(blockHeight);
+      if (confirmations < minConf || confirmations > maxConf) continue;
+      for (let vout = 0; vout < tx.outputsLength; vout++) {
+        if (this._spent.has(`${txid}:${vout}`)) continue;
+        const {script, amount} = tx.getOutput(vout);
+        const address = this._getAddress(script!);
+        if (!address || !addresses.includes(address)) continue;
+        result.push({
+          txid,
+          vout,
+          address,
+          label: '',
+          scriptPubKey: hex.encode(script!),
+          amount: btc.Decimal.encode(amount!),
+          confirmations,
+          spendable: true,
+          solvable: true,
+          parent_descs: [],
+          safe: confirmations > 0,
+        });
+      }
+    }
+    return result;
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    const stored = this._transactions.get(txid);
+    if (!stored)
+      throw Object.assign(
+        new Error('No such mempool or blockchain transaction'),
+        {code: -5}
+      );
+    return stored.rawTx;
+  }
+
+  /**
+   * @inheritDoc
+   *
+   * @throws {Error} If the transaction is not final, spends missing or spent outputs,
+   * or pays more than it spends. A transaction spending the outputs which are spent by a
+   * mempool transaction signaling BIP-125 replaceability replaces it if it pays a higher fee.
+   */
+  async broadcast(rawTx: string): Promise<string> {
+    const tx = btc.Transaction.fromRaw(hex.decode(rawTx), {
+      allowUnknownOutputs: true, // required for OP_RETURN
+    });
+    if (!tx.isFinal) throw new Error('Transaction is not final');
+    if (this._transactions.has(tx.id)) throw new Error('txn-already-known');
+
+    let inputsAmount = 0n;
+    const conflicts = new Set<string>();
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const {txid, index} = tx.getInput(i);
+      const prevTxid = hex.encode(txid!);
+      const prevTx = this._transactions.get(prevTxid)?.tx;
+      if (!prevTx || index! >= prevTx.outputsLength)
+        throw new Error('bad-txns-inputs-missingorspent');
+      const spender = this._spent.get(`${prevTxid}:${index}`);
+      if (spender) {
+        if (this._transactions.get(spender)!.blockHeight !== undefined)
+          throw new Error('bad-txns-inputs-missingorspent');
+        conflicts.add(spender);
+      }
+      inputsAmount += prevTx.getOutput(index!).amount!;
+    }
+    let outputsAmount = 0n;
+    for (let i = 0; i < tx.outputsLength; i++)
+      outputsAmount += tx.getOutput(i).amount!;
+    if (inputsAmount < outputsAmount) throw new Error('bad-txns-in-belowout');
+
+    for (const conflict of conflicts) {
+      const replaced = this._transactions.get(conflict)!.tx;
+      const replaceable = Array.from(
+        {length: replaced.inputsLength},
+        (_, i) => replaced.getInput(i).sequence!
+      ).some(sequence => sequence < 0xfffffffe);
+      if (!replaceable) throw new Error('txn-mempool-conflict');
+      if (inputsAmount - outputsAmount <= this._getFee(replaced))
+        throw new Error('insufficient fee');
+    }
+    for (const conflict of conflicts) this._removeTransaction(conflict);
+
+    return this._addTransaction(tx);
+  }
+
+  async estimateFeeRate(confTarget: number): Promise<bigint | null> {
+    // Use the estimate of the closest target which is not longer than requested.
+    const targets = Object.keys(this.feeRates)
+      .map(Number)
+      .filter(target => target <= confTarget)
+      .sort((a, b) => b - a);
+    if (targets.length === 0) return null;
+    return this.feeRates[targets[0]];
+  }
+
+  async getTxStatus(txid: string): Promise<L1TransactionStatus | null> {
+    const stored = this._transactions.get(txid);
+    if (!stored) return null;
+    if (stored.blockHeight === undefined)
+      return {confirmed: false, confirmations: 0};
+
+    return {
+      confirmed: true,
+      confirmations: this._getConfirmations(stored.blockHeight),
+      blockHash: this._blocks[stored.blockHeight].hash,
+      blockHeight: stored.blockHeight,
+    };
+  }
+
+  async getNetworkName(): Promise<BitcoinNetworkName> {
+    return this.networkName;
+  }
+
+  async getTxOutProof(txid: string): Promise<string> {
+    const blockHeight = this._transactions.get(txid)?.blockHeight;
+    if (blockHeight === undefined)
+      throw new Error('Transaction not yet in block');
+    const {header, txids} = this._blocks[blockHeight];
+
+    // The partial Merkle tree is built as in `CPartialMerkleTree::TraverseAndBuild`.
+    const total = txids.length;
+    const width = (height: number) => (total + (1 << height) - 1) >> height;
+    const match = txids.indexOf(txid);
+    const hashes: Uint8Array[] = [];
+    const bits: boolean[] = [];
+    const build = (height: number, pos: number) => {
+      const isParentOfMatch = match >> height === pos;
+      bits.push(isParentOfMatch);
+      if (height === 0 || !isParentOfMatch) {
+        hashes.push(this._getMerkleNode(txids, height, pos));
+        return;
+      }
+      build(height - 1, pos * 2);
+      if (pos * 2 + 1 < width(height - 1)) build(height - 1, pos * 2 + 1);
+    };
+    build(this._getMerkleHeight(total), 0);
+
+    const flags = new Uint8Array((bits.length + 7) >> 3);
+    bits.forEach((bit, i) => (flags[i >> 3] |= Number(bit) << (i & 7)));
+    const totalBytes = new Uint8Array(4);
+    new DataView(totalBytes.buffer).setUint32(0, total, true);
+    return hex.encode(
+      concatBytes(
+        hex.decode(header),
+        totalBytes,
+        btc.CompactSize.encode(BigInt(hashes.length)),
+        ...hashes,
+        btc.CompactSize.encode(BigInt(flags.length)),
+        flags
+      )
+    );
+  }
+
+  async getBlockHeader(blockHash: string): Promise<string> {
+    const block = this._blocks.find(block => block.hash === blockHash);
+    if (!block) throw new Error('Block not found');
+    return block.header;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    if (!this._blocks[height]) throw new Error('Block height out of range');
+    return this._blocks[height].hash;
+  }
+
+  async listReceivedTransactions(address: string): Promise<string[]> {
+    return [...this._transactions]
+      .filter(([, {tx}]) =>
+        Array.from(
+          {length: tx.outputsLength},
+          (_, vout) => this._getAddress(tx.getOutput(vout).script!) === address
+        ).some(Boolean)
+      )
+      .map(([txid]) => txid);
+  }
+
+  /**
+   * Stores the transaction in the mempool and marks its inputs as spent.
+   *
+   * @param tx The finalized transaction.
+   * @returns The transaction ID (txid).
+   */
+  protected _addTransaction(tx: btc.Transaction): string {
+    const txid = tx.id;
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const {txid: prevTxid, index} = tx.getInput(i);
+      this._spent.set(`${hex.encode(prevTxid!)}:${index}`, txid);
+    }
+    this._transactions.set(txid, {tx, rawTx: tx.hex});
+    return txid;
+  }
+
+  /**
+   * Removes the mempool transaction together with its descendants.
+   *
+   * @param txid The transaction ID (txid).
+   */
+  protected _removeTransaction(txid: string): void {
+    const {tx} = this._transactions.get(txid)!;
+    this._transactions.delete(txid);
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const {txid: prevTxid, index} = tx.getInput(i);
+      this._spent.delete(`${hex.encode(prevTxid!)}:${index}`);
+    }
+    for (let vout = 0; vout < tx.outputsLength; vout++) {
+      const spender = this._spent.get(`${txid}:${vout}`);
+      if (spender) this._removeTransaction(spender);
+    }
+  }
+
+  /**
+   * Returns the Merkle root of the transactions in the internal byte order.
+   *
+   * @param txids The transaction IDs (txids) of the transactions of the block.
+   */
+  protected _getMerkleRoot(txids: string[]): Uint8Array {
+    if (txids.length === 0) return new Uint8Array(32);
+    return this._getMerkleNode(txids, this._getMerkleHeight(txids.length), 0);
+  }
+
+  /**
+   * Returns the height of the Merkle tree of the transactions.
+   *
+   * @param total The number of transactions.
+   */
+  protected _getMerkleHeight(total: number): number {
+    let height = 0;
+    while ((total + (1 << height) - 1) >> height > 1) height++;
+    return height;
+  }
+
+  /**
+   * Returns the hash of the Merkle tree node in the internal byte order. The last node of a level
+   * with an odd number of nodes is hashed with itself.
+   *
+   * @param txids The transaction IDs (txids) of the transactions of the block.
+   * @param height The height of the node, 0 for the transactions.
+   * @param pos The position of the node within its level.
+   */
+  protected _getMerkleNode(
+    txids: string[],
+    height: number,
+    pos: number
+  ): Uint8Array {
+    if (height === 0) return hex.decode(txids[pos]).reverse();
+    const left = this._getMerkleNode(txids, height - 1, pos * 2);
+    const right =
+      (pos * 2 + 1) << (height - 1) < txids.length
+        ? this._getMerkleNode(txids, height - 1, pos * 2 + 1)
+        : left;
+    return sha256x2(left, right);
+  }
+
+  /**
+   * Returns the fee of the stored transaction in satoshi.
+   *
+   * @param tx The stored transaction.
+   */
+  protected _getFee(tx: btc.Transaction): bigint {
+    let fee = 0n;
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const {txid, index} = tx.getInput(i);
+      fee += this._transactions.get(hex.encode(txid!))!.tx.getOutput(index!)
+        .amount!;
+    }
+    for (let i = 0; i < tx.outputsLength; i++) fee -= tx.getOutput(i).amount!;
+    return fee;
+  }
+
+  /**
+   * Returns the number of confirmations of the transaction included at the height.
+   *
+   * @param [blockHeight] The height of the block, `undefined` for a mempool transaction.
+   */
+  protected _getConfirmations(blockHeight?: number): number {
+    return blockHeight === undefined ? 0 : this.tipHeight - blockHeight + 1;
+  }
+
+  /**
+   * Returns the address of the output script, or `undefined` if the script has no address.
+   *
+   * @param script The output script.
+   */
+  protected _getAddress(script: Uint8Array): string | undefined {
+    try {
+      return btc.Address(this.network).encode(btc.OutScript.decode(script));
+    } catch {
+      // The `OP_RETURN` output and other non-standard outputs have no address.
+      return undefined;
+    }
+  }
+}
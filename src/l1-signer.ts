@@ -0,0 +1,121 @@
+import BitcoinClient from 'bitcoin-core';
+import * as btc from '@scure/btc-signer';
+import {base64, hex} from '@scure/base';
+import {secp256k1} from '@noble/curves/secp256k1';
+import {BTC_NETWORK, NETWORK} from '@scure/btc-signer/utils';
+import {L1Signer} from './types';
+
+/**
+ * A `PrivateKeyL1Signer` implements {@link L1Signer} using the private key which is held in memory.
+ */
+export class PrivateKeyL1Signer implements L1Signer {
+  /** The private key of the L1 account in WIF format. */
+  readonly privateKey: string;
+  /** The L1 network configuration. */
+  readonly network: BTC_NETWORK;
+
+  /**
+   * @param privateKey The private key of the L1 account in WIF format.
+   * @param [network] The L1 network configuration which the private key belongs to.
+   *
+   * @example
+   *
+   * import { PrivateKeyL1Signer, utils } from '@vianetwork/via-ethers';
+   *
+   * const PRIVATE_KEY = '<WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   *
+   * const signer = new PrivateKeyL1Signer(PRIVATE_KEY, utils.REGTEST_NETWORK);
+   */
+  constructor(privateKey: string, network?: BTC_NETWORK) {
+    this.privateKey = privateKey;
+    this.network = network ?? NETWORK;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    return secp256k1.getPublicKey(this._decodePrivateKey(), true);
+  }
+
+  async signInputs(tx: btc.Transaction, inputIndexes: number[]): Promise<void> {
+    const privateKey = this._decodePrivateKey();
+    for (const index of inputIndexes) tx.signIdx(privateKey, index);
+  }
+
+  /**
+   * Decodes the private key from WIF format.
+   *
+   * @throws {Error} If the private key does not belong to the L1 network.
+   */
+  protected _decodePrivateKey(): Uint8Array {
+    try {
+      return btc.WIF(this.network).decode(this.privateKey);
+    } catch {
+      throw new Error('Signing key does not belong to the L1 network');
+    }
+  }
+}
+
+/**
+ * A `BitcoinCoreL1Signer` implements {@link L1Signer} using the `walletprocesspsbt` JSON-RPC method
+ * of a `bitcoind` node, so that the private key never leaves the node wallet.
+ * The wallet has to hold the private key of the address, and has to be unlocked when signing.
+ */
+export class BitcoinCoreL1Signer implements L1Signer {
+  /** The `bitcoin-core` client used for sending the JSON-RPC requests. */
+  readonly client: BitcoinClient;
+  /** The address of the L1 account held by the node wallet. */
+  readonly address: string;
+
+  /**
+   * @param client The `bitcoin-core` client used for sending the JSON-RPC requests.
+   * @param address The address of the L1 account held by the node wallet.
+   *
+   * @example
+   *
+   * import { BitcoinCoreL1Signer, WalletL1 } from '@vianetwork/via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const ADDRESS = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const client = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new WalletL1(new BitcoinCoreL1Signer(client, ADDRESS), ADDRESS, client);
+   */
+  constructor(client: BitcoinClient, address: string) {
+    this.client = client;
+    this.address = address;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    const info = await this.client.command('getaddressinfo', this.address);
+    if (info.pubkey) return hex.decode(info.pubkey);
+    // The public key of a `tr` address is only present in its descriptor, in x-only form.
+    const match = /^tr\((?:\[[^\]]*\])?([0-9a-f]{64})\)/.exec(info.desc ?? '');
+    if (match) return hex.decode(`02${match[1]}`);
+    throw new Error(`Public key of ${this.address} is unknown to the L1 node`);
+  }
+
+  async signInputs(tx: btc.Transaction, inputIndexes: number[]): Promise<void> {
+    const result = await this.client.command(
+      'walletprocesspsbt',
+      base64.encode(tx.toPSBT()),
+      true, // sign
+      'DEFAULT',
+      true, // bip32derivs
+      false // finalize
+    );
+    const signed = btc.Transaction.fromPSBT(base64.decode(result.psbt), {
+      allowUnknownOutputs: true, // required for OP_RETURN
+    });
+    // The node wallet may sign other inputs as well, only the requested ones are copied.
+    for (const index of inputIndexes) {
+      const {partialSig, tapKeySig} = signed.getInput(index);
+      if (!partialSig && !tapKeySig)
+        throw new Error(`Input ${index} has not been signed by the L1 node`);
+      tx.updateInput(index, {partialSig, tapKeySig});
+    }
+  }
+}
@@ -40,6 +40,10 @@ import {
   ProtocolVersion,
   FeeParams,
   TransactionWithDetailedOutput,
+  WebSocketProviderOptions,
+  FallbackProviderOptions,
+  FallbackEndpointStatus,
+  RpcCache,
 } from './types';
 import {
   CONTRACT_DEPLOYER_ADDRESS,
@@ -47,6 +51,10 @@ import {
   EIP712_TX_TYPE,
   L2_BASE_TOKEN_ADDRESS,
   isAddressEq,
+  checkBtcAddress,
+  detectBtcNetwork,
+  l2UnitsToSats,
+  sleep,
 } from './utils';
 import {Signer} from './signer';
 
@@ -58,9 +66,65 @@ import {
   formatFee,
 } from './format';
 import {makeError} from 'ethers';
+import {RateLimitedError, toRpcError} from './errors';
 
 type Constructor<T = {}> = new (...args: any[]) => T;
 
+/**
+ * The JSON-RPC methods whose results are cached, each with the rule deciding whether the result can no longer change,
+ * so that no reorganization can invalidate it.
+ */
+const CACHE_RULES: Record<
+  string,
+  (
+    result: any,
+    params: any[],
+    provider: ethers.JsonRpcApiProvider
+  ) => boolean | Promise<boolean>
+> = {
+  zks_getBytecodeByHash: result => result !== null,
+  zks_getProtocolVersion: (result, params) =>
+    typeof params[0] === 'number' && result !== null,
+  // The details change until the batch is executed on L1.
+  zks_getL1BatchDetails: result => Boolean(result?.executeTxHash),
+  zks_getBlockDetails: result => Boolean(result?.executeTxHash),
+  eth_getTransactionReceipt: async (result, _params, provider) =>
+    Boolean(result) && isFinalized(provider, Number(result.blockNumber)),
+};
+
+/**
+ * The last finalized block number fetched by each provider, which is reused until the polling interval elapses,
+ * so that checking the receipts of a polling cycle sends a single `eth_getBlockByNumber` request.
+ */
+const finalizedBlocks = new WeakMap<
+  ethers.JsonRpcApiProvider,
+  {number: number; timestamp: number}
+>();
+
+async function isFinalized(
+  provider: ethers.JsonRpcApiProvider,
+  blockNumber: number
+): Promise<boolean> {
+  const last = finalizedBlocks.get(provider);
+  if (
+    last &&
+    (last.number >= blockNumber ||
+      Date.now() - last.timestamp < provider.pollingInterval)
+  )
+    return last.number >= blockNumber;
+
+  const finalized = await provider.send('eth_getBlockByNumber', [
+    'finalized',
+    false,
+  ]);
+  if (!finalized) return false;
+  finalizedBlocks.set(provider, {
+    number: Number(finalized.number),
+    timestamp: Date.now(),
+  });
+  return Number(finalized.number) >= blockNumber;
+}
+
 export function JsonRpcApiProvider<
   TBase extends Constructor<ethers.JsonRpcApiProvider>,
 >(ProviderType: TBase) {
@@ -87,6 +151,44 @@ export function JsonRpcApiProvider<
       throw new Error('Must be implemented by the derived class!');
     }
 
+    /**
+     * The cache of the results which can no longer change, e.g. a {@link LruCache} or a {@link FileSystemCache}.
+     * Only the results of `zks_getBytecodeByHash`, `zks_getProtocolVersion` with an ID, `zks_getL1BatchDetails` and
+     * `zks_getBlockDetails` of executed batches and blocks, and `eth_getTransactionReceipt` of finalized
+     * transactions are cached. The keys include the chain ID, so a cache can be shared between networks.
+     */
+    cache: RpcCache | null = null;
+
+    /**
+     * Requests the `method` with the `params`, using the {@link cache} for the results which can no longer change.
+     *
+     * @param method The JSON-RPC method.
+     * @param params The parameters of the method.
+     */
+    override async send(
+      method: string,
+      params: Array<any> | Record<string, any>
+    ): Promise<any> {
+      const rule = CACHE_RULES[method];
+      if (!this.cache || !rule) return super.send(method, params);
+      let chainId: bigint;
+      try {
+        chainId = this._network.chainId;
+      } catch {
+        // The network is not detected before the first request.
+        return super.send(method, params);
+      }
+
+      const key = `${chainId}:${method}:${JSON.stringify(params)}`;
+      const cached = await this.cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const result = await super.send(method, params);
+      if (await rule(result, params as any[], this))
+        await this.cache.set(key, result);
+      return result;
+    }
+
     override _getBlockTag(blockTag?: BlockTag): string | Promise<string> {
       if (blockTag === 'committed') {
         return 'committed';
@@ -417,11 +519,17 @@ export function JsonRpcApiProvider<
      * Returns the populated withdrawal transaction.
      *
      * @param transaction The transaction details.
-     * @param transaction.amount The amount of BTC tokens.
+     * @param transaction.amount The amount of BTC tokens in L2 base token units, which must be a whole number of satoshi.
      * @param transaction.to The L1 recipient's address.
      * @param transaction.from The sender's address.
      * @param [transaction.paymasterParams] Paymaster parameters.
      * @param [transaction.overrides] Transaction overrides including `gasLimit`, `gasPrice`, and `value`.
+     * @param [transaction.skipAddressValidation] Whether to skip the validation of the L1 recipient's address.
+     *
+     * @throws {InvalidL1AddressError} If the L1 recipient's address is malformed, belongs to another
+     * network than the bridge address or has an unsupported type.
+     * @throws {Error} If the amount is not a whole number of satoshi, since the fractional part
+     * would be lost when paying out the withdrawal.
      */
     async getWithdrawTx(transaction: {
       amount: BigNumberish;
@@ -429,9 +537,21 @@ export function JsonRpcApiProvider<
       from: Address;
       paymasterParams?: PaymasterParams;
       overrides?: ethers.Overrides;
+      skipAddressValidation?: boolean;
     }): Promise<EthersTransactionRequest> {
       const {...tx} = transaction;
 
+      if (!tx.skipAddressValidation) {
+        // The withdrawals are paid out on the network of the bridge address.
+        const bridgeAddress = await this.getBridgeAddress();
+        const network = detectBtcNetwork(bridgeAddress);
+        if (!network)
+          throw new Error(`Unsupported bridge address: ${bridgeAddress}`);
+        checkBtcAddress(tx.to, network);
+      }
+      // The withdrawal is paid out in whole satoshi, so the fractional part would be lost.
+      l2UnitsToSats(tx.amount);
+
       tx.overrides ??= {};
       tx.overrides.from = tx.from;
       tx.overrides.value = tx.amount;
@@ -465,6 +585,7 @@ export function JsonRpcApiProvider<
      * @param transaction.to The L1 recipient's address.
      * @param [transaction.paymasterParams] Paymaster parameters.
      * @param [transaction.overrides] Transaction overrides including `gasLimit`, `gasPrice`, and `value`.
+     * @param [transaction.skipAddressValidation] Whether to skip the validation of the L1 recipient's address.
      */
     async estimateGasWithdraw(transaction: {
       amount: BigNumberish;
@@ -472,6 +593,7 @@ export function JsonRpcApiProvider<
       to: Address;
       paymasterParams?: PaymasterParams;
       overrides?: ethers.Overrides;
+      skipAddressValidation?: boolean;
     }): Promise<bigint> {
       const withdrawTx = await this.getWithdrawTx(transaction);
       return await this.estimateGas(withdrawTx);
@@ -719,6 +841,13 @@ export function JsonRpcApiProvider<
  */
 export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
   #connect: FetchRequest;
+  #batchScopes: number;
+  #batchQueue: Array<{
+    payloads: Array<JsonRpcPayload>;
+    resolve: (responses: Array<JsonRpcResult>) => void;
+    reject: (error: any) => void;
+  }>;
+  #batchTimer: ReturnType<typeof setTimeout> | null;
   protected _contractAddresses: {
     bridge?: Address;
   };
@@ -734,12 +863,14 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
    * Caching is disabled for local networks.
    * @param [url] The network RPC URL. Defaults to the local network.
    * @param [network] The network name, chain ID, or object with network details.
-   * @param [options] Additional options for the provider.
+   * @param [options] Additional options for the provider. The requests made within the same `batchStallTime`
+   * (10 ms by default) are sent together as a JSON-RPC batch of at most `batchMaxCount` requests (100 by default,
+   * `1` disables batching) and at most `batchMaxSize` bytes (1 MiB by default).
    */
   constructor(
     url?: ethers.FetchRequest | string,
     network?: Networkish,
-    options?: any
+    options?: ethers.JsonRpcApiProviderOptions
   ) {
     if (!url) {
       url = 'http://127.0.0.1:3050';
@@ -764,6 +895,9 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
       : (this.#connect = url.clone());
     this.pollingInterval = 500;
     this._contractAddresses = {};
+    this.#batchScopes = 0;
+    this.#batchQueue = [];
+    this.#batchTimer = null;
   }
 
   /**
@@ -1171,7 +1305,7 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
    * const provider = Provider.getDefaultProvider(types.Network.Localhost);
    *
    * const tx = await provider.getWithdrawTx({
-   *   amount: 7_000_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    * });
@@ -1186,7 +1320,7 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
    * const paymaster = '0x13D0D8550769f59aa241a41897D4859c87f7Dd46'; // Paymaster for Crown token
    *
    * const tx = await provider.getWithdrawTx({
-   *   amount: 7_000_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
@@ -1204,6 +1338,7 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionRequest> {
     return super.getWithdrawTx(transaction);
   }
@@ -1217,7 +1352,7 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
    *
    * const provider = Provider.getDefaultProvider(types.Network.Localhost);
    * const gasWithdraw = await provider.estimateGasWithdraw({
-   *   amount: 7_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    * });
@@ -1229,6 +1364,7 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<bigint> {
     return super.estimateGasWithdraw(transaction);
   }
@@ -1414,30 +1550,113 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
     return super.getContractAccountInfo(address);
   }
 
+  /**
+   * Returns the {@link RpcError} subclass matching the JSON-RPC error returned by the node, e.g. an
+   * {@link ExecutionRevertedError} carrying the decoded revert.
+   *
+   * @param payload The JSON-RPC payload.
+   * @param _error The JSON-RPC error.
+   */
   override getRpcError(payload: JsonRpcPayload, _error: JsonRpcError): Error {
-    const {error} = _error;
-    const message = _error.error.message ?? 'Execution reverted';
-    const code = _error.error.code ?? 0;
-    // @ts-ignore
-    return makeError(message, code, {payload, error});
+    return toRpcError(payload, _error.error);
+  }
+
+  /**
+   * Runs the `callback` in a batch scope, in which the requests are collected until the callback waits for
+   * their results, and are then sent together as a single JSON-RPC batch, regardless of `batchMaxCount`
+   * and `batchMaxSize`. While a scope is open, the requests made outside of it are collected as well.
+   *
+   * The scope has no limits of its own. Outside of a scope, the requests are batched only by the
+   * `batchStallTime`, `batchMaxCount` and `batchMaxSize` options of {@link ethers.JsonRpcApiProviderOptions}.
+   * A {@link FallbackProvider} sends each request separately, see {@link FallbackProvider.batch}.
+   *
+   * @param callback The function making the requests through the provider it receives.
+   * @returns The result of the `callback`.
+   *
+   * @example
+   *
+   * import { Provider, types, utils } from '@vianetwork/via-ethers';
+   *
+   * const provider = Provider.getDefaultProvider(types.Network.Localhost);
+   * const blocks = await provider.batch(async p =>
+   *   Promise.all([1, 2, 3].map(number => p.getBlockDetails(number)))
+   * );
+   * console.log(`Block details: ${utils.toJSON(blocks)}`);
+   */
+  async batch<T>(callback: (provider: this) => Promise<T>): Promise<T> {
+    this.#batchScopes++;
+    try {
+      return await callback(this);
+    } finally {
+      this.#batchScopes--;
+    }
   }
 
   override async _send(
     payload: JsonRpcPayload | Array<JsonRpcPayload>
+  ): Promise<Array<JsonRpcResult>> {
+    if (this.#batchScopes === 0) return this.#sendBatch(payload);
+
+    return new Promise((resolve, reject) => {
+      const payloads = Array.isArray(payload) ? payload : [payload];
+      this.#batchQueue.push({payloads, resolve, reject});
+      this.#batchTimer ??= setTimeout(() => this.#flushBatch());
+    });
+  }
+
+  async #flushBatch(): Promise<void> {
+    const queue = this.#batchQueue;
+    this.#batchQueue = [];
+    this.#batchTimer = null;
+    try {
+      const responses = await this.#sendBatch(
+        queue.flatMap(({payloads}) => payloads)
+      );
+      for (const {payloads, resolve} of queue) {
+        const ids = new Set(payloads.map(payload => payload.id));
+        resolve(responses.filter(response => ids.has(response.id)));
+      }
+    } catch (error) {
+      for (const {reject} of queue) reject(error);
+    }
+  }
+
+  async #sendBatch(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>
   ): Promise<Array<JsonRpcResult>> {
     const request = this._getConnection();
     request.body = JSON.stringify(payload);
     request.setHeader('content-type', 'application/json');
 
     const response = await request.send();
-    response.assertOk();
-
-    let resp = response.bodyJson;
+    let resp;
+    try {
+      resp = response.bodyJson;
+    } catch (error) {
+      response.assertOk();
+      throw error;
+    }
+    // The JSON-RPC error which comes with an error status describes the failure better than the status.
+    if (!response.ok() && !Array.isArray(resp) && !resp?.error) {
+      response.assertOk();
+    }
     if (!Array.isArray(resp)) {
       resp = [resp];
     }
 
-    return resp;
+    // The error which the node returns for the whole batch, e.g. when the batch is too large,
+    // is reported to each of its requests, so that each is mapped through `getRpcError`.
+    const batchError = resp.find(
+      (r: any) => r.error && (r.id === null || r.id === undefined)
+    )?.error;
+    if (!batchError) {
+      return resp;
+    }
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const responses = new Map(resp.map((r: any) => [r.id, r]));
+    return payloads.map(
+      ({id}) => responses.get(id) ?? ({id, error: batchError} as any)
+    );
   }
 
   /**
@@ -1465,6 +1684,445 @@ export class Provider extends JsonRpcApiProvider(ethers.JsonRpcProvider) {
   }
 }
 
+/** The JSON-RPC methods which submit a transaction, they are never retried blindly. */
+const SEND_TRANSACTION_METHODS = [
+  'eth_sendRawTransaction',
+  'zks_sendRawTransactionWithDetailedOutput',
+];
+
+/** The JSON-RPC methods which create a filter, which only exists on the endpoint that created it. */
+const NEW_FILTER_METHODS = [
+  'eth_newFilter',
+  'eth_newBlockFilter',
+  'eth_newPendingTransactionFilter',
+];
+
+/** The JSON-RPC methods which use an existing filter. */
+const FILTER_METHODS = [
+  'eth_getFilterChanges',
+  'eth_getFilterLogs',
+  'eth_uninstallFilter',
+];
+
+/** The JSON-RPC methods whose results legitimately differ between synchronized endpoints, so no quorum is applied. */
+const VOLATILE_METHODS = [
+  'eth_blockNumber',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+  'eth_estimateGas',
+  'zks_L1BatchNumber',
+  'zks_estimateFee',
+  'zks_getFeeParams',
+  'zks_getL1GasPrice',
+];
+
+/** The index of the block tag parameter of the JSON-RPC methods which read the state at a block. */
+const BLOCK_TAG_PARAMS: Record<string, number> = {
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_call: 1,
+  eth_getBlockByNumber: 0,
+  eth_getBlockTransactionCountByNumber: 0,
+  eth_getTransactionByBlockNumberAndIndex: 0,
+};
+
+interface FallbackEndpoint {
+  connection: FetchRequest;
+  healthy: boolean;
+  blockNumber: number | null;
+}
+
+/** Returns the key of a filter ID, which is formatted differently when it is created and when it is used. */
+function filterKey(id: any): string {
+  try {
+    return BigInt(id).toString(16);
+  } catch {
+    return String(id);
+  }
+}
+
+function isRateLimited(response: JsonRpcResult | JsonRpcError): boolean {
+  return (
+    'error' in response &&
+    toRpcError(null, response.error) instanceof RateLimitedError
+  );
+}
+
+/**
+ * A `FallbackProvider` extends {@link Provider} and spreads the requests over several RPC endpoints of the same L2
+ * network, so that it can be used wherever a `Provider` is expected, including the `zks` namespace.
+ * Read requests are balanced over the healthy endpoints, retried on the next endpoint with exponential backoff
+ * on transport errors and rate limits, and optionally confirmed by a quorum of endpoints.
+ * Transactions are resent only once no endpoint knows them, and filters are bound to the endpoint that created them.
+ */
+export class FallbackProvider extends Provider {
+  #endpoints: FallbackEndpoint[];
+  #filters: Map<string, FallbackEndpoint>;
+  #next: number;
+  #quorum: number;
+  #maxRetries: number;
+  #retryDelay: number;
+  #maxBlockLag: number;
+  #healthCheckTimer: ReturnType<typeof setInterval> | null;
+
+  /**
+   * Creates a new `FallbackProvider` instance for connecting to an L2 network through several endpoints.
+   *
+   * @param urls The RPC URLs of the network.
+   * @param [network] The network name, chain ID, or object with network details.
+   * @param [options] Additional options for the provider, including the quorum, the retries and the health checks.
+   *
+   * @throws {Error} If no URL is provided or the quorum exceeds the number of URLs.
+   *
+   * @example
+   *
+   * import { FallbackProvider } from '@vianetwork/via-ethers';
+   *
+   * const provider = new FallbackProvider(
+   *   ['https://via.testnet.viablockchain.dev', '<BACKUP_RPC_URL>', '<ANOTHER_BACKUP_RPC_URL>'],
+   *   undefined,
+   *   { quorum: 2 }
+   * );
+   * console.log(`L1 batch number: ${await provider.getL1BatchNumber()}`);
+   */
+  constructor(
+    urls: Array<FetchRequest | string>,
+    network?: Networkish,
+    options?: FallbackProviderOptions
+  ) {
+    if (urls.length === 0) throw new Error('At least one URL is required');
+    const {
+      quorum,
+      maxRetries,
+      retryDelay,
+      healthCheckInterval,
+      maxBlockLag,
+      ...providerOptions
+    } = options ?? {};
+    if ((quorum ?? 1) > urls.length)
+      throw new Error(
+        `Quorum of ${quorum} exceeds the number of URLs: ${urls.length}`
+      );
+
+    super(urls[0], network, providerOptions);
+    this.#endpoints = urls.map(url => ({
+      connection: typeof url === 'string' ? new FetchRequest(url) : url.clone(),
+      healthy: true,
+      blockNumber: null,
+    }));
+    this.#filters = new Map();
+    this.#next = 0;
+    this.#quorum = quorum ?? 1;
+    this.#maxRetries = maxRetries ?? 3;
+    this.#retryDelay = retryDelay ?? 250;
+    this.#maxBlockLag = maxBlockLag ?? 5;
+    this.#healthCheckTimer = null;
+    if ((healthCheckInterval ?? 10_000) > 0) {
+      this.#healthCheckTimer = setInterval(
+        () => this.checkHealth(),
+        healthCheckInterval ?? 10_000
+      );
+      // The health checks alone do not keep the process running.
+      this.#healthCheckTimer.unref?.();
+    }
+  }
+
+  /**
+   * Checks the health of the endpoints by requesting their latest block number.
+   * An endpoint is unhealthy when the request fails or when it lags behind the most advanced endpoint by more than
+   * `maxBlockLag` blocks. Unhealthy endpoints are used only after all the healthy endpoints have failed.
+   *
+   * @example
+   *
+   * import { FallbackProvider } from '@vianetwork/via-ethers';
+   *
+   * const provider = new FallbackProvider(['https://via.testnet.viablockchain.dev', '<BACKUP_RPC_URL>']);
+   * console.log(`Endpoints: ${JSON.stringify(await provider.checkHealth())}`);
+   */
+  async checkHealth(): Promise<FallbackEndpointStatus[]> {
+    const payload: JsonRpcPayload = {
+      id: 1,
+      jsonrpc: '2.0',
+      method: 'eth_blockNumber',
+      params: [],
+    };
+    await Promise.all(
+      this.#endpoints.map(async endpoint => {
+        try {
+          const response = await this.#request(endpoint, payload);
+          endpoint.blockNumber =
+            'result' in response ? Number(response.result) : null;
+        } catch {
+          endpoint.blockNumber = null;
+        }
+      })
+    );
+
+    const highest = Math.max(
+      ...this.#endpoints.map(endpoint => endpoint.blockNumber ?? -Infinity)
+    );
+    for (const endpoint of this.#endpoints)
+      endpoint.healthy =
+        endpoint.blockNumber !== null &&
+        endpoint.blockNumber >= highest - this.#maxBlockLag;
+
+    return this.#endpoints.map(endpoint => ({
+      url: endpoint.connection.url,
+      healthy: endpoint.healthy,
+      blockNumber: endpoint.blockNumber,
+    }));
+  }
+
+  override destroy(): void {
+    if (this.#healthCheckTimer) clearInterval(this.#healthCheckTimer);
+    this.#healthCheckTimer = null;
+    super.destroy();
+  }
+
+  /**
+   * Runs the `callback` without a batch scope. Each request is balanced, retried and confirmed by the quorum
+   * on its own, so the requests are always sent separately, as are the requests batched by `batchMaxCount`.
+   *
+   * @param callback The function making the requests through the provider it receives.
+   * @returns The result of the `callback`.
+   */
+  override async batch<T>(
+    callback: (provider: this) => Promise<T>
+  ): Promise<T> {
+    return await callback(this);
+  }
+
+  override async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>
+  ): Promise<Array<JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    // The payloads of a batch are sent separately, so that a failed payload does not fail the others.
+    return (await Promise.all(
+      payloads.map(payload =>
+        this.#send(payload).catch(error => ({
+          id: payload.id,
+          error: {
+            code: error.code ?? -32603,
+            message: error.shortMessage ?? error.message,
+          },
+        }))
+      )
+    )) as Array<JsonRpcResult>;
+  }
+
+  async #send(payload: JsonRpcPayload): Promise<JsonRpcResult | JsonRpcError> {
+    const {method, params} = payload;
+    if (SEND_TRANSACTION_METHODS.includes(method))
+      return this.#sendTransaction(payload);
+
+    if (FILTER_METHODS.includes(method)) {
+      const endpoint = this.#filters.get(filterKey((params as any[])[0]));
+      if (endpoint) {
+        if (method === 'eth_uninstallFilter')
+          this.#filters.delete(filterKey((params as any[])[0]));
+        return (await this.#retry(payload, [endpoint]))[0];
+      }
+    }
+
+    if (NEW_FILTER_METHODS.includes(method)) {
+      const [response, endpoint] = await this.#retry(
+        payload,
+        this.#candidates()
+      );
+      if ('result' in response)
+        this.#filters.set(filterKey(response.result), endpoint);
+      return response;
+    }
+
+    const candidates = this.#candidates();
+    // The endpoints one block apart answer differently for the latest block, so it is pinned first.
+    const pinned = VOLATILE_METHODS.includes(method)
+      ? null
+      : await this.#pinBlockTag(payload, candidates);
+    const quorum = pinned ? this.#quorum : 1;
+    if (quorum === 1) return (await this.#retry(payload, candidates))[0];
+    payload = pinned!;
+
+    // The endpoints are asked only as long as the quorum can still be reached with their responses.
+    const votes = new Map<string, number>();
+    let asked = 0;
+    while (asked < candidates.length) {
+      const needed = quorum - Math.max(0, ...votes.values());
+      const endpoints = candidates.slice(asked, asked + needed);
+      asked += endpoints.length;
+      const responses = await Promise.all(
+        endpoints.map(endpoint =>
+          this.#request(endpoint, payload).catch(() => {
+            endpoint.healthy = false;
+            return null;
+          })
+        )
+      );
+      for (const response of responses) {
+        if (!response || isRateLimited(response)) continue;
+        const key = JSON.stringify(
+          'error' in response ? response.error : response.result
+        );
+        const count = (votes.get(key) ?? 0) + 1;
+        if (count >= quorum) return response;
+        votes.set(key, count);
+      }
+    }
+    throw new Error(
+      `Endpoints did not reach the quorum of ${quorum} for ${method}`
+    );
+  }
+
+  /**
+   * Returns the payload with its block tag replaced by the number of the lowest block that the healthy endpoints
+   * report for the tag, so that they all answer for the same block, or `null` if the tag cannot be pinned, which is
+   * the case of the `pending` block. The payloads which do not read the state at a block tag are returned as they are.
+   */
+  async #pinBlockTag(
+    payload: JsonRpcPayload,
+    candidates: FallbackEndpoint[]
+  ): Promise<JsonRpcPayload | null> {
+    const index = BLOCK_TAG_PARAMS[payload.method];
+    if (index === undefined || this.#quorum === 1) return payload;
+    const params = [...((payload.params as any[]) ?? [])];
+    const tag = params[index] ?? 'latest';
+    // Block numbers and block hashes are already pinned.
+    if (typeof tag !== 'string' || ethers.isHexString(tag)) return payload;
+    if (tag === 'pending') return null;
+
+    const healthy = candidates.filter(endpoint => endpoint.healthy);
+    const responses = await Promise.all(
+      (healthy.length > 0 ? healthy : candidates).map(endpoint =>
+        this.#request(endpoint, {
+          id: payload.id,
+          jsonrpc: '2.0',
+          method: 'eth_getBlockByNumber',
+          params: [tag, false],
+        }).catch(() => null)
+      )
+    );
+    const numbers = responses
+      .map(response =>
+        response && 'result' in response ? Number(response.result?.number) : NaN
+      )
+      .filter(number => Number.isInteger(number));
+    // Without a block number, the endpoints are asked for the tag and the quorum decides.
+    if (numbers.length === 0) return payload;
+    params[index] = ethers.toQuantity(Math.min(...numbers));
+    return {...payload, params};
+  }
+
+  async #sendTransaction(
+    payload: JsonRpcPayload
+  ): Promise<JsonRpcResult | JsonRpcError> {
+    const candidates = this.#candidates();
+    let failure: any;
+    for (let attempt = 0; attempt <= this.#maxRetries; attempt++) {
+      if (attempt > 0) await sleep(this.#retryDelay * 2 ** (attempt - 1));
+      const endpoint = candidates[attempt % candidates.length];
+      try {
+        const response = await this.#request(endpoint, payload);
+        // A rate limited transaction is rejected before it is processed, so it is safe to resend.
+        if (!isRateLimited(response)) return response;
+        failure = response;
+      } catch (error) {
+        endpoint.healthy = false;
+        // The transaction may have reached the endpoint before the connection failed,
+        // so it is resent only once the endpoints confirm that they do not know it.
+        const hash = Transaction.from((payload.params as any[])[0]).hash!;
+        const known = await this.#isTransactionKnown(hash);
+        if (known === false) {
+          failure = error;
+          continue;
+        }
+        if (known && payload.method === 'eth_sendRawTransaction')
+          return {id: payload.id, result: hash};
+        throw error;
+      }
+    }
+    if (failure instanceof Error) throw failure;
+    return failure;
+  }
+
+  /** Returns whether any endpoint knows the transaction, or `null` if no endpoint responds. */
+  async #isTransactionKnown(hash: string): Promise<boolean | null> {
+    const payload: JsonRpcPayload = {
+      id: 1,
+      jsonrpc: '2.0',
+      method: 'eth_getTransactionByHash',
+      params: [hash],
+    };
+    const responses = await Promise.all(
+      this.#endpoints.map(endpoint =>
+        this.#request(endpoint, payload).catch(() => null)
+      )
+    );
+    const answers = responses.filter(
+      response => response && 'result' in response
+    ) as JsonRpcResult[];
+    if (answers.length === 0) return null;
+    return answers.some(response => response.result !== null);
+  }
+
+  async #retry(
+    payload: JsonRpcPayload,
+    candidates: FallbackEndpoint[]
+  ): Promise<[JsonRpcResult | JsonRpcError, FallbackEndpoint]> {
+    let failure: any;
+    let endpoint = candidates[0];
+    for (let attempt = 0; attempt <= this.#maxRetries; attempt++) {
+      if (attempt > 0) await sleep(this.#retryDelay * 2 ** (attempt - 1));
+      endpoint = candidates[attempt % candidates.length];
+      try {
+        const response = await this.#request(endpoint, payload);
+        if (!isRateLimited(response)) return [response, endpoint];
+        failure = response;
+      } catch (error) {
+        endpoint.healthy = false;
+        failure = error;
+      }
+    }
+    if (failure instanceof Error) throw failure;
+    return [failure, endpoint];
+  }
+
+  /** Returns the endpoints in the order of use, rotating the healthy ones to balance the load. */
+  #candidates(): FallbackEndpoint[] {
+    const start = this.#next++ % this.#endpoints.length;
+    const endpoints = [
+      ...this.#endpoints.slice(start),
+      ...this.#endpoints.slice(0, start),
+    ];
+    return [
+      ...endpoints.filter(endpoint => endpoint.healthy),
+      ...endpoints.filter(endpoint => !endpoint.healthy),
+    ];
+  }
+
+  async #request(
+    endpoint: FallbackEndpoint,
+    payload: JsonRpcPayload
+  ): Promise<JsonRpcResult | JsonRpcError> {
+    const request = endpoint.connection.clone();
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+    // Rate limited requests are retried on the next endpoint instead of the same one.
+    request.retryFunc = async () => false;
+
+    const response = await request.send();
+    if (response.statusCode === 429)
+      return {
+        id: payload.id,
+        error: {code: 429, message: response.statusMessage},
+      };
+    response.assertOk();
+    return response.bodyJson;
+  }
+}
+
 /* c8 ignore start */
 /**
  * A `BrowserProvider` extends {@link ethers.BrowserProvider} and includes additional features for interacting with ZKsync Era.
@@ -1933,7 +2591,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
    * const provider = new BrowserProvider(window.ethereum);
    *
    * const tx = await provider.getWithdrawTx({
-   *   amount: 7_000_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    * });
@@ -1948,7 +2606,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
    * const paymaster = '0x13D0D8550769f59aa241a41897D4859c87f7Dd46'; // Paymaster for Crown token
    *
    * const tx = await provider.getWithdrawTx({
-   *   amount: 7_000_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
@@ -1966,6 +2624,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionRequest> {
     return super.getWithdrawTx(transaction);
   }
@@ -1979,7 +2638,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
    *
    * const provider = new BrowserProvider(window.ethereum);
    * const gasWithdraw = await provider.estimateGasWithdraw({
-   *   amount: 7_000_000,
+   *   amount: 70_000_000_000,
    *   to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    *   from: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049',
    * });
@@ -1991,6 +2650,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<bigint> {
     return super.estimateGasWithdraw(transaction);
   }
@@ -2200,8 +2860,9 @@ export class BrowserProvider extends JsonRpcApiProvider(
   }
 
   /**
-   * Returns an ethers-style `Error` for the given JSON-RPC error `payload`, coalescing the various strings and error
-   * shapes that different nodes return, coercing them into a machine-readable standardized error.
+   * Returns the {@link RpcError} for the given JSON-RPC error `payload`, as the other providers do. The EIP-1193
+   * rejections by the user (`4001`) and the unsupported methods (`4200`) keep their codes and are prefixed
+   * in the message as in ethers.
    *
    * @param payload The JSON-RPC payload.
    * @param error The JSON-RPC error.
@@ -2219,7 +2880,7 @@ export class BrowserProvider extends JsonRpcApiProvider(
         break;
     }
 
-    return super.getRpcError(payload, error);
+    return toRpcError(payload, error.error);
   }
 
   /**
@@ -2305,3 +2966,294 @@ export class BrowserProvider extends JsonRpcApiProvider(
 }
 
 /* c8 ignore stop */
+
+/**
+ * A `SocketHeadSubscriber` listens for `newHeads` events and emits `block` events together with the block header.
+ */
+class SocketHeadSubscriber extends ethers.SocketSubscriber {
+  constructor(provider: WebSocketProvider) {
+    super(provider, ['newHeads']);
+  }
+
+  override async _emit(
+    provider: WebSocketProvider,
+    message: any
+  ): Promise<void> {
+    // The headers carry neither the transactions nor the uncles and the size of the block.
+    const block = provider._wrapBlock({
+      uncles: [],
+      size: 0,
+      ...message,
+      transactions: [],
+    });
+    provider.emit('block', block.number, block);
+  }
+}
+
+/**
+ * A `WebSocketProvider` extends {@link ethers.SocketProvider} and includes additional features for interacting with ZKsync Era.
+ * It supports RPC endpoints within the `zks` namespace.
+ * Blocks, logs and pending transactions are pushed by the node through `eth_subscribe` instead of being polled.
+ * When the connection is lost, the provider reconnects with exponential backoff, resends the unanswered requests
+ * and restores the subscriptions. Transactions are resent only if the node does not know them yet.
+ */
+export class WebSocketProvider extends JsonRpcApiProvider(
+  ethers.SocketProvider
+) {
+  #connect: ethers.WebSocketCreator;
+  #websocket: ethers.WebSocketLike | null;
+  #reconnectDelay: number;
+  #maxReconnectDelay: number;
+  #maxReconnectAttempts: number;
+  #reconnectAttempts: number;
+  #reconnectTimer: ReturnType<typeof setTimeout> | null;
+  // The requests which are not answered yet, they are resent after reconnecting.
+  #requests: Map<number, {method: string; message: string}>;
+  // The transactions whose status is being looked up before they are resent.
+  #resending: Set<number>;
+
+  protected _contractAddresses: {
+    bridge?: Address;
+  };
+
+  override contractAddresses(): {
+    bridge?: Address;
+  } {
+    return this._contractAddresses;
+  }
+
+  /**
+   * Connects to the WebSocket endpoint of an L2 network.
+   *
+   * @param url The WebSocket URL of the network, or a function creating the WebSocket which is called again on each
+   * reconnection. The URL requires the global `WebSocket`, which is available in browsers and Node.js 22 onwards.
+   * @param [network] The network name, chain ID, or object with network details.
+   * @param [options] Additional options for the provider, including the reconnection backoff.
+   *
+   * @example
+   *
+   * import { WebSocketProvider } from '@vianetwork/via-ethers';
+   *
+   * const provider = new WebSocketProvider('ws://127.0.0.1:3051');
+   * await provider.on('block', (blockNumber, block) => console.log(`Block ${blockNumber}: ${block.hash}`));
+   *
+   * @example
+   *
+   * import { WebSocketProvider } from '@vianetwork/via-ethers';
+   * import WebSocket from 'ws';
+   *
+   * const provider = new WebSocketProvider(() => new WebSocket('ws://127.0.0.1:3051'), undefined, {
+   *   reconnectDelay: 500,
+   *   maxReconnectAttempts: 10,
+   * });
+   */
+  constructor(
+    url: string | ethers.WebSocketCreator,
+    network?: Networkish,
+    options?: WebSocketProviderOptions
+  ) {
+    const {
+      reconnectDelay,
+      maxReconnectDelay,
+      maxReconnectAttempts,
+      ...providerOptions
+    } = options ?? {};
+    super(network, providerOptions);
+    this._contractAddresses = {};
+
+    if (typeof url === 'string') {
+      const WebSocket = (
+        globalThis as {WebSocket?: new (url: string) => ethers.WebSocketLike}
+      ).WebSocket;
+      if (!WebSocket)
+        throw new Error(
+          'WebSocket is not available, provide a function creating the WebSocket instead'
+        );
+      this.#connect = () => new WebSocket(url);
+    } else {
+      this.#connect = url;
+    }
+    this.#reconnectDelay = reconnectDelay ?? 1000;
+    this.#maxReconnectDelay = maxReconnectDelay ?? 30_000;
+    this.#maxReconnectAttempts = maxReconnectAttempts ?? Infinity;
+    this.#reconnectAttempts = 0;
+    this.#reconnectTimer = null;
+    this.#requests = new Map();
+    this.#resending = new Set();
+    this.#websocket = null;
+    this.#open();
+  }
+
+  /** The underlying WebSocket, `null` while reconnecting. */
+  get websocket(): ethers.WebSocketLike | null {
+    return this.#websocket;
+  }
+
+  override _getSubscriber(sub: ethers.Subscription): ethers.Subscriber {
+    if (sub.type === 'block') return new SocketHeadSubscriber(this);
+    return super._getSubscriber(sub);
+  }
+
+  override getRpcError(payload: JsonRpcPayload, _error: JsonRpcError): Error {
+    return toRpcError(payload, _error.error);
+  }
+
+  override async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>
+  ): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    // The mixin replaces `_send`, so the implementation of the socket is called explicitly.
+    return ethers.SocketProvider.prototype._send.call(this, payload);
+  }
+
+  override async _write(message: string): Promise<void> {
+    const {id, method} = JSON.parse(message);
+    this.#requests.set(id, {method, message});
+    // While reconnecting, the request is sent once the connection is reestablished.
+    if (this.#websocket?.readyState === 1) this.#websocket.send(message);
+  }
+
+  override async _processMessage(message: string): Promise<void> {
+    const result = JSON.parse(message);
+    if (result && typeof result === 'object' && 'id' in result)
+      this.#requests.delete(result.id);
+    await super._processMessage(message);
+  }
+
+  override destroy(): void {
+    if (this.#reconnectTimer) clearTimeout(this.#reconnectTimer);
+    this.#reconnectTimer = null;
+    const websocket = this.#websocket;
+    this.#websocket = null;
+    websocket?.close();
+    super.destroy();
+  }
+
+  #open(): void {
+    const websocket = this.#connect();
+    this.#websocket = websocket;
+
+    websocket.onopen = () => {
+      if (websocket !== this.#websocket) return;
+      const reconnected = this.ready;
+      this.#reconnectAttempts = 0;
+      for (const [id, {method, message}] of this.#requests) {
+        // The subscriptions of the lost connection are restored below instead.
+        if (
+          reconnected &&
+          (method === 'eth_subscribe' || method === 'eth_unsubscribe')
+        ) {
+          this.#requests.delete(id);
+          continue;
+        }
+        if (this.#resending.has(id)) continue;
+        if (reconnected && SEND_TRANSACTION_METHODS.includes(method)) {
+          this.#resendTransaction(id, method, message);
+          continue;
+        }
+        websocket.send(message);
+      }
+
+      if (reconnected) {
+        this.emit('debug', {action: 'reconnectWebSocket'});
+        this._forEachSubscriber(subscriber => {
+          if (subscriber instanceof ethers.SocketSubscriber) subscriber.start();
+        });
+      } else {
+        this._start();
+        this.resume();
+      }
+    };
+    websocket.onmessage = (message: {data: string}) => {
+      this._processMessage(message.data);
+    };
+    websocket.onerror = (error: unknown) => {
+      this.emit('debug', {action: 'receiveWebSocketError', error});
+    };
+    (websocket as ethers.WebSocketLike & {onclose: () => void}).onclose =
+      () => {
+        if (websocket !== this.#websocket) return;
+        this.#websocket = null;
+        this.#reconnect();
+      };
+  }
+
+  /**
+   * Resends the transaction of the lost connection, unless it reached the node before the connection was lost,
+   * in which case `eth_sendRawTransaction` resolves to its hash instead of failing as already known.
+   */
+  async #resendTransaction(
+    id: number,
+    method: string,
+    message: string
+  ): Promise<void> {
+    this.#resending.add(id);
+    try {
+      const hash = Transaction.from(JSON.parse(message).params[0]).hash!;
+      let known = false;
+      try {
+        known = (await this.send('eth_getTransactionByHash', [hash])) !== null;
+      } catch {
+        // The status is unknown, so the transaction is resent as any other request.
+      }
+      if (!known) {
+        // Otherwise, the connection is lost again and the transaction is resent after reconnecting.
+        if (this.#websocket?.readyState === 1) this.#websocket.send(message);
+        return;
+      }
+      const response =
+        method === 'eth_sendRawTransaction'
+          ? {result: hash}
+          : {
+              error: {
+                code: -32000,
+                message: `Transaction ${hash} was sent before the WebSocket connection was lost`,
+              },
+            };
+      await this._processMessage(
+        JSON.stringify({id, jsonrpc: '2.0', ...response})
+      );
+    } finally {
+      this.#resending.delete(id);
+    }
+  }
+
+  #reconnect(): void {
+    if (this.destroyed) return;
+    if (this.#reconnectAttempts >= this.#maxReconnectAttempts) {
+      this.#abort();
+      return;
+    }
+
+    const delay = Math.min(
+      this.#reconnectDelay * 2 ** this.#reconnectAttempts,
+      this.#maxReconnectDelay
+    );
+    this.#reconnectAttempts++;
+    this.#reconnectTimer = setTimeout(() => {
+      this.#reconnectTimer = null;
+      try {
+        this.#open();
+      } catch (error) {
+        this.emit('debug', {action: 'receiveWebSocketError', error});
+        this.#reconnect();
+      }
+    }, delay);
+  }
+
+  /** Fails the unanswered requests and destroys the provider once the reconnection attempts are exhausted. */
+  async #abort(): Promise<void> {
+    const error = {code: -32000, message: 'WebSocket connection lost'};
+    await Promise.all(
+      [...this.#requests.keys()].map(id =>
+        this._processMessage(JSON.stringify({id, jsonrpc: '2.0', error}))
+      )
+    );
+    await this.emit(
+      'error',
+      makeError('WebSocket connection lost', 'NETWORK_ERROR', {
+        event: 'reconnect',
+      })
+    );
+    this.destroy();
+  }
+}
@@ -379,7 +379,7 @@ export class Signer extends AdapterL2 implements ethers.Signer {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await signer.withdraw({
    *   to: l1Recipient,
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    * });
    *
    * @example Withdraw BTC using paymaster to facilitate fee payment with an ERC20 token.
@@ -399,7 +399,7 @@ export class Signer extends AdapterL2 implements ethers.Signer {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await signer.withdraw({
    *   to: l1Recipient,
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
    *     type: 'ApprovalBased',
    *     token: token,
@@ -413,6 +413,7 @@ export class Signer extends AdapterL2 implements ethers.Signer {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionResponse> {
     return super.withdraw(transaction);
   }
@@ -406,6 +406,7 @@ export class SmartAccount extends AbstractSigner {
    * @param [transaction.to] - The address of the recipient on L1.
    * @param [transaction.paymasterParams] - Paymaster parameters.
    * @param [transaction.overrides] - Transaction's overrides which may be used to pass l2 gasLimit, gasPrice, value, etc.
+   * @param [transaction.skipAddressValidation] - Whether to skip the validation of the L1 recipient's address.
    *
    * @returns A Promise resolving to a withdrawal transaction response.
    *
@@ -423,7 +424,7 @@ export class SmartAccount extends AbstractSigner {
    * );
    *
    * const withdrawTx = await account.withdraw({
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    * });
    *
    * @example Withdraw BTC using paymaster to facilitate fee payment with an ERC20 token.
@@ -443,7 +444,7 @@ export class SmartAccount extends AbstractSigner {
    * );
    *
    * const withdrawTx = await account.withdraw({
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
    *     type: 'ApprovalBased',
    *     token: token,
@@ -457,6 +458,7 @@ export class SmartAccount extends AbstractSigner {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: ethers.Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionResponse> {
     const withdrawTx = await checkProvider(this, 'getWithdrawTx').getWithdrawTx(
       {
@@ -17,6 +17,7 @@ import {
   isAddressEq,
 } from './utils';
 import {Provider} from './provider';
+import * as btc from '@scure/btc-signer';
 
 /** 0x-prefixed, hex encoded account address. */
 export type Address = string;
@@ -56,6 +57,40 @@ export enum TransactionStatus {
   Finalized = 'finalized',
 }
 
+/** Enumerated list of deposit status types. */
+export enum DepositStatus {
+  /** Deposit transaction not found. */
+  NotFound = 'not-found',
+  /** Deposit transaction is in the L1 mempool. */
+  Mempool = 'mempool',
+  /** Deposit transaction has been confirmed on L1. */
+  Confirmed = 'confirmed',
+  /** Deposit has been picked up by the sequencer. */
+  Processing = 'processing',
+  /** Deposit has been included in an L2 block. */
+  Included = 'included',
+  /** Deposit has been finalized. */
+  Finalized = 'finalized',
+}
+
+/** Enumerated list of withdrawal statuses. */
+export enum WithdrawalStatus {
+  /** Withdrawal transaction not found on L2. */
+  NotFound = 'not-found',
+  /** Withdrawal transaction has been reverted on L2. */
+  Failed = 'failed',
+  /** Withdrawal has been included in an L2 block. */
+  Included = 'included',
+  /** The L1 batch containing the withdrawal has been committed. */
+  Committed = 'committed',
+  /** The L1 batch containing the withdrawal has been proven. */
+  Proven = 'proven',
+  /** The L1 batch containing the withdrawal has been executed. */
+  Executed = 'executed',
+  /** The withdrawn BTC has been paid to the L1 recipient. */
+  PaidOut = 'paid-out',
+}
+
 /** Type defining a paymaster by its address and the bytestream input. */
 export type PaymasterParams = {
   /** The address of the paymaster. */
@@ -974,6 +1009,67 @@ export interface TransactionWithDetailedOutput {
   }>;
 }
 
+/**
+ * A cache of the JSON-RPC results which can no longer change, used by the providers.
+ * The values are JSON-serializable.
+ */
+export interface RpcCache {
+  /**
+   * Returns the cached value of the `key`, or `undefined` if it is not cached.
+   *
+   * @param key The key of the value.
+   */
+  get(key: string): Promise<any | undefined>;
+
+  /**
+   * Stores the `value` of the `key`.
+   *
+   * @param key The key of the value.
+   * @param value The JSON-serializable value.
+   */
+  set(key: string, value: any): Promise<void>;
+}
+
+/** Options of the `WebSocketProvider`. */
+export interface WebSocketProviderOptions
+  extends ethers.JsonRpcApiProviderOptions {
+  /** The delay in milliseconds before the first reconnection attempt. Defaults to 1000. */
+  reconnectDelay?: number;
+  /** The maximum delay in milliseconds between the reconnection attempts, which doubles after each failed attempt. Defaults to 30000. */
+  maxReconnectDelay?: number;
+  /** The number of failed reconnection attempts after which the provider is destroyed. Defaults to `Infinity`. */
+  maxReconnectAttempts?: number;
+}
+
+/** Options of the `FallbackProvider`. */
+export interface FallbackProviderOptions
+  extends ethers.JsonRpcApiProviderOptions {
+  /**
+   * The number of endpoints which have to return the same response to a read request. Defaults to 1.
+   * The reads at a block tag such as `latest` are pinned to the lowest block number reported by the healthy
+   * endpoints, while the reads of the `pending` block and of volatile values such as the gas price skip the quorum.
+   */
+  quorum?: number;
+  /** The number of times a request is retried on the next endpoint after a transport error or a rate limit. Defaults to 3. */
+  maxRetries?: number;
+  /** The delay in milliseconds before the first retry, which doubles after each retry. Defaults to 250. */
+  retryDelay?: number;
+  /** The interval in milliseconds between the health checks of the endpoints, `0` disables them. Defaults to 10000. */
+  healthCheckInterval?: number;
+  /** The number of blocks by which a healthy endpoint may lag behind the most advanced endpoint. Defaults to 5. */
+  maxBlockLag?: number;
+}
+
+/** Represents the health of an endpoint of the `FallbackProvider`. */
+export interface FallbackEndpointStatus {
+  /** The URL of the endpoint. */
+  url: string;
+  /** Whether the endpoint is used before the unhealthy ones. */
+  healthy: boolean;
+  /** The latest block number of the endpoint, `null` if the endpoint did not respond. */
+  blockNumber: number | null;
+}
+
 /**
  *  Signs various types of payloads, optionally using a some kind of secret.
  *
@@ -1055,3 +1151,395 @@ export interface UnspentTransactionOutput {
    */
   safe: boolean;
 }
+
+/** Represents the unspent output of an L1 account. */
+export interface L1Utxo {
+  /** The transaction ID (txid) of the transaction containing the output. */
+  txid: string;
+  /** The index of the output within its transaction. */
+  vout: number;
+  /** The address of the L1 account which owns the output. */
+  address: string;
+  /** The value of the output in satoshi. */
+  amount: bigint;
+  /** The number of confirmations of the transaction (0 for unconfirmed). */
+  confirmations: number;
+}
+
+/** Represents the header of an L1 block. */
+export interface L1BlockHeader {
+  /** The hash of the block. */
+  hash: string;
+  /** The version of the block. */
+  version: number;
+  /** The hash of the previous block. */
+  prevHash: string;
+  /** The Merkle root of the transactions of the block. */
+  merkleRoot: string;
+  /** The timestamp of the block in seconds. */
+  time: number;
+  /** The compact encoding of the proof-of-work target. */
+  bits: number;
+  /** The nonce of the proof-of-work. */
+  nonce: number;
+}
+
+/** Represents the inclusion of a deposit in an L1 block, verified with an SPV proof. */
+export interface DepositInclusion {
+  /** The hash of the block containing the deposit transaction. */
+  blockHash: string;
+  /** The height of the block containing the deposit transaction. */
+  blockHeight: number;
+  /** The number of confirmations of the deposit transaction. */
+  confirmations: number;
+  /** The total work of the verified headers, i.e. the expected number of hashes required to mine them. */
+  chainWork: bigint;
+}
+
+/** Represents the inclusion status of a transaction on the L1 network. */
+export interface L1TransactionStatus {
+  /** Whether the transaction is included in a block. */
+  confirmed: boolean;
+  /** The number of confirmations (0 while the transaction is in the mempool). */
+  confirmations: number;
+  /** The hash of the block containing the transaction. */
+  blockHash?: string;
+  /** The height of the block containing the transaction. */
+  blockHeight?: number;
+}
+
+/**
+ * Provides the access to the L1 network which is needed for building and broadcasting transactions.
+ * Implementations can be backed by a full node, a block explorer API or an in-memory stand-in.
+ */
+export interface BitcoinL1Provider {
+  /**
+   * Returns the unspent transaction outputs of the given addresses.
+   *
+   * @param addresses The addresses whose outputs are returned.
+   * @param [minConf] The minimum number of confirmations. Defaults to 1.
+   * @param [maxConf] The maximum number of confirmations.
+   */
+  listUnspent(
+    addresses: string[],
+    minConf?: number,
+    maxConf?: number
+  ): Promise<UnspentTransactionOutput[]>;
+
+  /**
+   * Returns the hex encoded raw transaction.
+   *
+   * @param txid The transaction ID.
+   */
+  getRawTransaction(txid: string): Promise<string>;
+
+  /**
+   * Broadcasts the raw transaction to the network.
+   *
+   * @param rawTx The hex encoded raw transaction.
+   * @returns The transaction ID (txid) of the broadcasted transaction.
+   */
+  broadcast(rawTx: string): Promise<string>;
+
+  /**
+   * Returns the estimated fee rate in satoshi per vbyte, or `null` if no estimate is available.
+   *
+   * @param confTarget The number of blocks within which the transaction should be confirmed.
+   */
+  estimateFeeRate(confTarget: number): Promise<bigint | null>;
+
+  /**
+   * Returns the inclusion status of the transaction, or `null` if the transaction is unknown.
+   *
+   * @param txid The transaction ID.
+   */
+  getTxStatus(txid: string): Promise<L1TransactionStatus | null>;
+
+  /**
+   * Returns the name of the Bitcoin network the provider is connected to. Wallets use it for
+   * refusing to sign transactions for a different network.
+   */
+  getNetworkName?(): Promise<BitcoinNetworkName>;
+
+  /**
+   * Returns the hex encoded proof that the transaction is included in a block, in the format of
+   * the `gettxoutproof` RPC method (the block header followed by the partial Merkle tree).
+   *
+   * @param txid The transaction ID.
+   */
+  getTxOutProof?(txid: string): Promise<string>;
+
+  /**
+   * Returns the hex encoded 80-byte header of the block.
+   *
+   * @param blockHash The hash of the block.
+   */
+  getBlockHeader?(blockHash: string): Promise<string>;
+
+  /**
+   * Returns the hash of the block at the height of the main chain.
+   *
+   * @param height The height of the block.
+   */
+  getBlockHash?(height: number): Promise<string>;
+
+  /**
+   * Returns the transaction IDs (txids) of the transactions paying to the address, including the
+   * unconfirmed ones and those whose outputs are spent already. Wallets use it for finding the
+   * used addresses and the payouts of withdrawals.
+   *
+   * @param address The address receiving the outputs.
+   */
+  listReceivedTransactions?(address: string): Promise<string[]>;
+}
+
+/** The name of the Bitcoin network. */
+export type BitcoinNetworkName =
+  | 'mainnet'
+  | 'testnet'
+  | 'testnet4'
+  | 'signet'
+  | 'regtest';
+
+/**
+ * Signs the inputs of L1 transactions which spend the outputs of an L1 account, the same way
+ * {@link PayloadSigner} signs the payloads of a smart account on L2. The private key can be held
+ * locally (e.g. {@link PrivateKeyL1Signer}), by a remote signing service or by a `bitcoin-core`
+ * wallet (e.g. {@link BitcoinCoreL1Signer}).
+ */
+export interface L1Signer {
+  /** Returns the compressed public key of the L1 account. */
+  getPublicKey(): Promise<Uint8Array>;
+
+  /**
+   * Signs the inputs of the transaction. The inputs contain the spent outputs (`witnessUtxo`
+   * and `nonWitnessUtxo`) required for signing, and are finalized after all signers are done.
+   *
+   * @param tx The L1 transaction which is signed in place.
+   * @param inputIndexes The indexes of the inputs which spend the outputs of the L1 account.
+   */
+  signInputs(tx: btc.Transaction, inputIndexes: number[]): Promise<void>;
+}
+
+/** Represents the L1 account whose outputs can be spent by the wallet. */
+export interface L1Account {
+  /** The address of the L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`. */
+  address: string;
+  /** The signer of the inputs which spend the outputs of the L1 account. */
+  signer: L1Signer;
+}
+
+/**
+ * The fee rate tier of an L1 transaction, backed by the fee rate estimate of the L1 provider for
+ * the confirmation target of the tier: `priority` (2 blocks), `normal` (6 blocks) and
+ * `economy` (144 blocks).
+ */
+export type FeeRateTier = 'economy' | 'normal' | 'priority';
+
+/**
+ * The source of the fee rate of an L1 transaction: a {@link FeeRateTier}, the `fixed` rate
+ * provided by the caller, or the L1 gas price reported by the `l2` network.
+ */
+export type FeeRateSource = FeeRateTier | 'fixed' | 'l2';
+
+/** Represents the fee rate of an L1 transaction together with its source. */
+export interface L1FeeRate {
+  /** The fee rate in satoshi per vbyte. */
+  feePerByte: bigint;
+  /** The source of the fee rate. */
+  source: FeeRateSource;
+}
+
+/** Represents the optional customization parameters of a deposit transaction. */
+export interface DepositOptions {
+  /** The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`. */
+  feePerByte?: bigint;
+  /**
+   * The fee rate tier whose estimate is used when `feePerByte` is not provided.
+   * If neither is provided, the L1 gas price reported by the L2 network is used.
+   */
+  feeRateTier?: FeeRateTier;
+  /** The minimum amount of satoshi per vbyte, which the chosen fee rate is clamped to. */
+  minFeePerByte?: bigint;
+  /** The maximum amount of satoshi per vbyte, which the chosen fee rate is clamped to. */
+  maxFeePerByte?: bigint;
+  /** Weather to always create change, even if less than dust threshold. */
+  alwaysChange?: boolean;
+  /** The vbyte threshold below which outputs are considered dust and avoided. */
+  dust?: number;
+  /** The relay fee rate (satoshi per vbyte) to define what is considered dust. */
+  dustRelayFeeRate?: bigint;
+  /** Whether to signal BIP-125 replaceability, so that the fee can be bumped later. */
+  rbf?: boolean;
+  /** The minimum number of confirmations of the spent UTXOs. Defaults to 1. */
+  minConf?: number;
+  /** The maximum number of confirmations of the spent UTXOs. */
+  maxConf?: number;
+  /** The outpoints (`txid:vout`) which are allowed to be spent. If set, no other UTXOs are spent. */
+  includeOutpoints?: string[];
+  /** The outpoints (`txid:vout`) which must not be spent. */
+  excludeOutpoints?: string[];
+  /**
+   * Returns whether the UTXO can be spent. Used for skipping UTXOs which carry inscriptions,
+   * runes or other assets, e.g. using {@link ordUtxoFilter}.
+   */
+  utxoFilter?: (utxo: UnspentTransactionOutput) => boolean | Promise<boolean>;
+  /** The maximum number of inputs of the transaction. */
+  maxInputs?: number;
+  /**
+   * The minimum amount in satoshi which the bridge credits for a deposit. Regardless of it,
+   * the amount must not be below the dust threshold of the bridge output.
+   */
+  minDepositAmount?: bigint;
+}
+
+/** Represents the preview of a deposit transaction, computed without signing or broadcasting it. */
+export interface DepositEstimate {
+  /** The selected unspent transaction outputs spent by the deposit. */
+  inputs: {
+    /** The transaction ID (txid) of the transaction containing the output. */
+    txid: string;
+    /** The output index within its transaction. */
+    vout: number;
+    /** The value of the output in satoshi. */
+    amount: bigint;
+  }[];
+  /** The outputs of the deposit transaction. */
+  outputs: {
+    /** The role of the output in the deposit. */
+    type: 'bridge' | 'op_return' | 'change';
+    /** The address of the output, if it has one. */
+    address?: string;
+    /** The hex encoded output script. */
+    script: string;
+    /** The value of the output in satoshi. */
+    amount: bigint;
+  }[];
+  /** The estimated virtual size of the signed transaction in vbytes. */
+  vsize: number;
+  /** The fee paid by the transaction in satoshi. */
+  fee: bigint;
+  /** The requested fee rate in satoshi per vbyte. */
+  feePerByte: bigint;
+  /** The source of the requested fee rate. */
+  feeRateSource: FeeRateSource;
+  /** The effective fee rate in satoshi per vbyte (`fee / vsize`). */
+  effectiveFeeRate: number;
+  /** The amount returned to the change address in satoshi (0 if there is no change output). */
+  change: bigint;
+}
+
+/** Represents the lifecycle stage of a deposit. */
+export interface DepositDetails {
+  /** The current stage of the deposit. */
+  status: DepositStatus;
+  /** The number of confirmations of the deposit transaction on L1. */
+  l1Confirmations: number;
+  /** The height of the L1 block containing the deposit transaction. */
+  l1BlockHeight?: number;
+  /** The hash of the L2 priority transaction which credits the deposit. */
+  l2TxHash?: string;
+  /** The receipt of the L2 priority transaction, once it is included in an L2 block. */
+  receipt?: TransactionReceipt;
+}
+
+/** Represents the lifecycle stage of a withdrawal. */
+export interface WithdrawalDetails {
+  /** The current stage of the withdrawal. */
+  status: WithdrawalStatus;
+  /** The hash of the L2 withdrawal transaction. */
+  l2TxHash: string;
+  /** The receipt of the L2 withdrawal transaction, once it is included in an L2 block. */
+  receipt?: TransactionReceipt;
+  /** The address of the L2 sender. */
+  from?: Address;
+  /** The address of the L1 recipient, unless the withdrawal is initiated by another contract. */
+  to?: string;
+  /** The withdrawn amount in satoshi. */
+  amount?: bigint;
+  /** The number of the L1 batch containing the withdrawal. */
+  l1BatchNumber?: number;
+  /** The details of the L1 batch containing the withdrawal. */
+  batch?: BatchDetails;
+  /** The transaction ID (txid) of the L1 transaction paying the L1 recipient. */
+  payoutTxid?: string;
+  /** The index of the output paying the L1 recipient. */
+  payoutVout?: number;
+}
+
+/**
+ * Represents a broadcasted deposit transaction, similar to {@link PriorityOpResponse},
+ * with functions that wait for the deposit to be processed on both networks.
+ */
+export interface DepositResponse {
+  /** The transaction ID (txid) of the L1 deposit transaction. */
+  hash: string;
+  /** The fee rate of the deposit transaction, unless it was finalized from an externally built PSBT. */
+  feeRate?: L1FeeRate;
+  /** Returns the current stage of the deposit. */
+  getStatus(): Promise<DepositDetails>;
+  /**
+   * Waits for the L1 deposit transaction to have the specified number of confirmations.
+   * @param [confirmations] The number of confirmations to wait for. Defaults to 1.
+   * @param [opts] The options for waiting.
+   * @param [opts.timeout] The number of milliseconds after which waiting fails.
+   * @param [opts.signal] The signal for aborting the waiting.
+   */
+  waitL1Commit(
+    confirmations?: number,
+    opts?: {timeout?: number; signal?: AbortSignal}
+  ): Promise<L1TransactionStatus>;
+  /**
+   * Waits for the deposit to be included in an L2 block.
+   * @param [opts] The options for waiting, the same as the ones accepted by `waitForDeposit`.
+   * @returns A promise that resolves to the receipt of the L2 priority transaction.
+   */
+  wait(opts?: {
+    l1Confirmations?: number;
+    timeout?: number;
+    signal?: AbortSignal;
+  }): Promise<TransactionReceipt>;
+  /** Waits for the deposit to be finalized on L2. */
+  waitFinalize(): Promise<TransactionReceipt>;
+}
+
+/** Represents a single deposit of the batch deposit transaction. */
+export interface BatchDeposit {
+  /** The address that receives the deposited tokens on L2. */
+  to: Address;
+  /** The deposited amount in satoshi. */
+  amount: bigint;
+  /** The index of the output paying the bridge address. */
+  vout: number;
+}
+
+/** Represents the deposit transaction decoded from its raw form. */
+export interface DepositTransaction {
+  /** The transaction ID (txid) of the L1 deposit transaction. */
+  txid: string;
+  /** The address that receives the deposited tokens on L2, or of the first deposit in case of a batch. */
+  to?: Address;
+  /** The deposited amount in satoshi, or of the first deposit in case of a batch. */
+  amount?: bigint;
+  /** The valid deposits of the transaction, in the order of their outputs. */
+  deposits: BatchDeposit[];
+  /** The outpoints spent by the sender of the deposit. */
+  inputs: {txid: string; vout: number}[];
+  /** The reasons why the transaction is not a valid deposit, empty if it is valid. */
+  errors: string[];
+}
+
+/** Represents the lifecycle stage of the batch deposit together with the L2 crediting status of each deposit. */
+export interface DepositBatchDetails extends DepositDetails {
+  /** The deposits of the batch. `credited` is set once the L2 priority transaction transfers the base token to the recipient. */
+  deposits: (BatchDeposit & {credited: boolean})[];
+}
+
+/** Represents the broadcasted L1 batch deposit transaction. */
+export interface DepositBatchResponse
+  extends Omit<DepositResponse, 'getStatus'> {
+  /** The deposits of the batch. */
+  deposits: BatchDeposit[];
+  /** Returns the current stage of the batch deposit and the L2 crediting status of each deposit. */
+  getStatus(): Promise<DepositBatchDetails>;
+}
@@ -1,9 +1,14 @@
 import {BigNumberish, BytesLike, ethers, SignatureLike} from 'ethers';
 import {
   Address,
+  BatchDeposit,
+  BitcoinNetworkName,
   DeploymentInfo,
+  DepositTransaction,
+  L1BlockHeader,
   Eip712Meta,
   EthereumSignature,
+  Network,
   PaymasterParams,
   Transaction,
   TransactionLike,
@@ -17,7 +22,12 @@ import Contract2FactoryABI from '../abi/Contract2Factory.json';
 import IERC20ABI from '../abi/IERC20.json';
 import IERC1271ABI from '../abi/IERC1271.json';
 import INonceHolderABI from '../abi/INonceHolder.json';
+import IBaseTokenABI from '../abi/IBaseToken.json';
 import {BTC_NETWORK} from '@scure/btc-signer/src/utils';
+import {sha256x2} from '@scure/btc-signer/utils';
+import * as btc from '@scure/btc-signer';
+import {bech32m, hex} from '@scure/base';
+import {InvalidL1AddressError} from './errors';
 
 export * from './paymaster-utils';
 export * from './smart-account-utils';
@@ -53,6 +63,12 @@ export const IERC1271 = new ethers.Interface(IERC1271ABI);
  */
 export const NONCE_HOLDER_ABI = new ethers.Interface(INonceHolderABI);
 
+/**
+ * The ABI for the `IBaseToken` interface, which is utilized for transferring and withdrawing the base token.
+ * @readonly
+ */
+export const L2_BASE_TOKEN_ABI = new ethers.Interface(IBaseTokenABI);
+
 export const REGTEST_NETWORK: BTC_NETWORK = {
   bech32: 'bcrt',
   pubKeyHash: 0x6f,
@@ -60,6 +76,29 @@ export const REGTEST_NETWORK: BTC_NETWORK = {
   wif: 0xef,
 };
 
+/**
+ * The L1 network configurations of the Bitcoin networks. Testnet, testnet4 and signet share
+ * the same address and private key prefixes.
+ * @readonly
+ */
+export const BTC_NETWORKS: Record<BitcoinNetworkName, BTC_NETWORK> = {
+  mainnet: {bech32: 'bc', pubKeyHash: 0x00, scriptHash: 0x05, wif: 0x80},
+  testnet: {bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4, wif: 0xef},
+  testnet4: {bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4, wif: 0xef},
+  signet: {bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4, wif: 0xef},
+  regtest: REGTEST_NETWORK,
+};
+
+/**
+ * The Bitcoin network expected by each Via network.
+ * @readonly
+ */
+export const VIA_BTC_NETWORKS: Record<Network, BitcoinNetworkName> = {
+  [Network.Mainnet]: 'mainnet',
+  [Network.Testnet]: 'testnet4',
+  [Network.Localhost]: 'regtest',
+};
+
 /**
  * The address of the Contract deployer.
  * @readonly
@@ -128,6 +167,14 @@ export const MAX_BYTECODE_LEN_BYTES: number = ((1 << 16) - 1) * 32;
 // It is a realistic value, but it is large enough to fill into any batch regardless of the pubdata price.
 export const DEFAULT_GAS_PER_PUBDATA_LIMIT = 50_000;
 
+/**
+ * The number of L2 base token units per satoshi. The L2 base token has 18 decimals,
+ * while BTC has 8 decimals.
+ *
+ * @readonly
+ */
+export const L2_UNITS_PER_SAT = 10n ** 10n;
+
 /**
  * Pauses execution for a specified number of milliseconds.
  *
@@ -999,3 +1046,564 @@ export function toJSON(object: any): string {
 export function isAddressEq(a: Address, b: Address): boolean {
   return a.toLowerCase() === b.toLowerCase();
 }
+
+/**
+ * Returns whether the L1 network configurations use the same address and private key prefixes.
+ *
+ * @param a The first L1 network configuration.
+ * @param b The second L1 network configuration.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const result = utils.isBtcNetworkEq(utils.BTC_NETWORKS.signet, utils.BTC_NETWORKS.testnet4);
+ * // true
+ */
+export function isBtcNetworkEq(a: BTC_NETWORK, b: BTC_NETWORK): boolean {
+  return (
+    a.bech32 === b.bech32 &&
+    a.pubKeyHash === b.pubKeyHash &&
+    a.scriptHash === b.scriptHash &&
+    a.wif === b.wif
+  );
+}
+
+/**
+ * Returns the L1 network configuration which the address belongs to, or `undefined` if the
+ * address does not belong to any of the {@link BTC_NETWORKS}.
+ *
+ * @param address The L1 address.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const network = utils.detectBtcNetwork('bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56');
+ * // utils.REGTEST_NETWORK
+ */
+export function detectBtcNetwork(address: string): BTC_NETWORK | undefined {
+  for (const network of Object.values(BTC_NETWORKS)) {
+    try {
+      btc.Address(network).decode(address);
+      return network;
+    } catch {
+      // The address belongs to another network.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The script types of the L1 addresses which can receive withdrawals.
+ * @readonly
+ */
+export const WITHDRAWAL_ADDRESS_TYPES: readonly string[] = [
+  'pkh',
+  'sh',
+  'wpkh',
+  'wsh',
+  'tr',
+];
+
+/**
+ * Checks that the L1 address belongs to the L1 network and has one of the
+ * {@link WITHDRAWAL_ADDRESS_TYPES}, so that it can receive withdrawals.
+ *
+ * @param address The L1 address.
+ * @param network The L1 network configuration.
+ *
+ * @throws {InvalidL1AddressError} If the address is malformed, belongs to another network or has an unsupported type.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * utils.checkBtcAddress('bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56', utils.REGTEST_NETWORK);
+ */
+export function checkBtcAddress(address: string, network: BTC_NETWORK): void {
+  let type: string;
+  try {
+    type = btc.Address(network).decode(address).type;
+  } catch {
+    if (detectBtcNetwork(address))
+      throw new InvalidL1AddressError(
+        address,
+        'wrong-network',
+        `Address ${address} does not belong to the L1 network`
+      );
+    // Addresses of future witness versions are valid, but the outputs paying them can be spent by anyone.
+    const decoded = bech32m.decodeUnsafe(address);
+    if (decoded?.prefix !== network.bech32 || decoded.words[0] < 2)
+      throw new InvalidL1AddressError(
+        address,
+        'malformed',
+        `Invalid L1 address: ${address}`
+      );
+    type = `witness v${decoded.words[0]}`;
+  }
+  if (!WITHDRAWAL_ADDRESS_TYPES.includes(type))
+    throw new InvalidL1AddressError(
+      address,
+      'unsupported-type',
+      `Unsupported address type: ${type}`
+    );
+}
+
+/**
+ * Returns the dust threshold of the output, which is the amount in satoshi below which Bitcoin Core
+ * does not relay the transaction, since spending the output costs more than its amount.
+ *
+ * @param script The script of the output.
+ * @param [dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust. Defaults to 3.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ * import * as btc from '@scure/btc-signer';
+ *
+ * const script = btc.OutScript.encode(
+ *   btc.Address(utils.REGTEST_NETWORK).decode('bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56')
+ * );
+ * const dust = utils.getDustThreshold(script);
+ * // 294n
+ */
+export function getDustThreshold(
+  script: Uint8Array,
+  dustRelayFeeRate = 3n
+): bigint {
+  // The sizes follow `GetDustThreshold` of Bitcoin Core, where spending a witness program is discounted.
+  const outputSize = 8 + 1 + script.length;
+  const [version, programLength] = script;
+  const isWitnessProgram =
+    (version === btc.OP.OP_0 ||
+      (version >= btc.OP.OP_1 && version <= btc.OP.OP_16)) &&
+    programLength >= 2 &&
+    programLength <= 40 &&
+    script.length === programLength + 2;
+  const inputSize = isWitnessProgram
+    ? 32 + 4 + 1 + Math.floor(107 / 4) + 4
+    : 32 + 4 + 1 + 107 + 4;
+  return BigInt(outputSize + inputSize) * dustRelayFeeRate;
+}
+
+/**
+ * Returns the outputs of the deposit transaction. Each deposit is encoded as the output paying
+ * the `amount` to the bridge address, directly followed by the `OP_RETURN` output storing its
+ * 20-byte L2 recipient.
+ *
+ * @param deposits The deposits, each with the L2 recipient and the amount in satoshi.
+ * @param bridgeAddress The L1 address of the bridge.
+ *
+ * @throws {Error} If the recipient is not an L2 address.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const outputs = utils.encodeDepositOutputs(
+ *   [{to: '0x36615Cf349d7F6344891B1e7CA7C72883F5dc049', amount: 70_000_000n}],
+ *   'bcrt1pfceu92l2rz44acv6y37etczl73prv09esdp0ec0srttltf5yvj3qwtuky6'
+ * );
+ */
+export function encodeDepositOutputs(
+  deposits: {to: Address; amount: BigNumberish}[],
+  bridgeAddress: string
+): (
+  | {address: string; amount: bigint}
+  | {script: Uint8Array; amount: bigint}
+)[] {
+  return deposits.flatMap(({to, amount}) => {
+    if (!ethers.isHexString(to, 20))
+      throw new Error(`Invalid L2 address: ${to}`);
+    return [
+      {address: bridgeAddress, amount: BigInt(amount)},
+      {
+        script: btc.Script.encode(['RETURN', hex.decode(to.slice(2))]),
+        amount: 0n,
+      },
+    ];
+  });
+}
+
+/**
+ * Decodes the deposit transaction encoded by {@link encodeDepositOutputs}. The transaction is a
+ * valid deposit if it pays the bridge address and each output paying the bridge address is
+ * directly followed by the `OP_RETURN` output storing the 20-byte L2 recipient. A single deposit
+ * may have its outputs in any order, since they are sorted according to BIP-69.
+ *
+ * @param rawTxHex The raw L1 transaction encoded in hex.
+ * @param bridgeAddress The L1 address of the bridge.
+ * @param network The L1 network configuration.
+ *
+ * @throws {Error} If the raw transaction or the bridge address cannot be decoded.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const deposit = utils.parseDepositTransaction(
+ *   '<RAW_TX_HEX>',
+ *   'bcrt1pfceu92l2rz44acv6y37etczl73prv09esdp0ec0srttltf5yvj3qwtuky6',
+ *   utils.REGTEST_NETWORK
+ * );
+ * if (deposit.errors.length === 0) console.log(`${deposit.to} receives ${deposit.amount} sats`);
+ */
+export function parseDepositTransaction(
+  rawTxHex: string,
+  bridgeAddress: string,
+  network: BTC_NETWORK
+): DepositTransaction {
+  let bridgeScript: string;
+  try {
+    bridgeScript = hex.encode(
+      btc.OutScript.encode(btc.Address(network).decode(bridgeAddress))
+    );
+  } catch {
+    throw new Error(`Invalid bridge address: ${bridgeAddress}`);
+  }
+  let tx: btc.Transaction;
+  try {
+    tx = btc.Transaction.fromRaw(hex.decode(rawTxHex), {
+      allowUnknownOutputs: true, // required for OP_RETURN
+      allowUnknownInputs: true,
+      disableScriptCheck: true,
+    });
+  } catch {
+    throw new Error('Invalid raw transaction');
+  }
+
+  const inputs = [];
+  for (let i = 0; i < tx.inputsLength; i++) {
+    const input = tx.getInput(i);
+    inputs.push({txid: hex.encode(input.txid!), vout: input.index!});
+  }
+
+  const bridgeOutputs: number[] = [];
+  const dataOutputs: number[] = [];
+  for (let vout = 0; vout < tx.outputsLength; vout++) {
+    const script = tx.getOutput(vout).script!;
+    if (hex.encode(script) === bridgeScript) bridgeOutputs.push(vout);
+    else if (script[0] === btc.OP.RETURN) dataOutputs.push(vout);
+  }
+
+  // The outputs of a single deposit may be sorted according to BIP-69, which puts the `OP_RETURN`
+  // output first, while each deposit of a batch is directly followed by its `OP_RETURN` output.
+  const isSingle = bridgeOutputs.length === 1 && dataOutputs.length === 1;
+  const deposits: BatchDeposit[] = [];
+  const errors: string[] = [];
+  for (const vout of bridgeOutputs) {
+    const {amount} = tx.getOutput(vout);
+    if (amount === 0n)
+      errors.push(`Output ${vout} pays no amount to the bridge`);
+
+    const dataVout = isSingle ? dataOutputs[0] : vout + 1;
+    let decoded: ReturnType<typeof btc.Script.decode> = [];
+    try {
+      if (dataVout < tx.outputsLength)
+        decoded = btc.Script.decode(tx.getOutput(dataVout).script!);
+    } catch {
+      // The script of the output is malformed.
+    }
+    if (decoded[0] !== 'RETURN')
+      errors.push(`Output ${vout} is not followed by an OP_RETURN output`);
+    else if (
+      decoded.length !== 2 ||
+      !(decoded[1] instanceof Uint8Array) ||
+      decoded[1].length !== 20
+    )
+      errors.push(`Output ${dataVout} does not store a 20-byte L2 address`);
+    else if (amount! > 0n)
+      deposits.push({
+        to: ethers.getAddress(`0x${hex.encode(decoded[1])}`),
+        amount: amount!,
+        vout,
+      });
+  }
+  if (deposits.length === 0 && errors.length === 0)
+    errors.push('Transaction does not pay the bridge address');
+
+  return {
+    // Unlike `tx.id`, the txid of an unsigned transaction can be computed as well.
+    txid: hex.encode(sha256x2(tx.toBytes(true)).reverse()),
+    to: deposits[0]?.to,
+    amount: deposits[0]?.amount,
+    deposits,
+    inputs,
+    errors,
+  };
+}
+
+/**
+ * Converts the BTC amount to satoshi.
+ *
+ * @param value The BTC amount as a decimal string.
+ *
+ * @throws {Error} If the amount has more than 8 decimals or is malformed.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const sats = utils.parseBtc('0.7');
+ * // 70000000n
+ */
+export function parseBtc(value: string): bigint {
+  return btc.Decimal.decode(value);
+}
+
+/**
+ * Converts the amount in satoshi to the BTC amount.
+ *
+ * @param sats The amount in satoshi.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const value = utils.formatBtc(70_000_000n);
+ * // '0.7'
+ */
+export function formatBtc(sats: BigNumberish): string {
+  return btc.Decimal.encode(BigInt(sats));
+}
+
+/**
+ * Converts the amount in satoshi to the amount in L2 base token units.
+ *
+ * @param sats The amount in satoshi.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const amount = utils.satsToL2Units(70_000_000n);
+ * // 700000000000000000n
+ */
+export function satsToL2Units(sats: BigNumberish): bigint {
+  return BigInt(sats) * L2_UNITS_PER_SAT;
+}
+
+/**
+ * Converts the amount in L2 base token units to the amount in satoshi.
+ *
+ * @param amount The amount in L2 base token units.
+ * @param [rounding] How the remainder which is not a whole number of satoshi is handled:
+ * `exact` rejects the amount with a remainder, while `floor` drops the remainder. Defaults to `exact`.
+ *
+ * @throws {Error} If the rounding is `exact` and the amount is not a whole number of satoshi.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const sats = utils.l2UnitsToSats(700_000_000_000_000_000n);
+ * // 70000000n
+ *
+ * @example Drop the remainder which is not a whole number of satoshi.
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const sats = utils.l2UnitsToSats(700_000_000_000_000_001n, 'floor');
+ * // 70000000n
+ */
+export function l2UnitsToSats(
+  amount: BigNumberish,
+  rounding: 'exact' | 'floor' = 'exact'
+): bigint {
+  const value = BigInt(amount);
+  const remainder = value % L2_UNITS_PER_SAT;
+  if (remainder !== 0n && rounding === 'exact')
+    throw new Error(
+      `Amount ${value} is not a whole number of satoshi, ${remainder} would be lost`
+    );
+  return (value - remainder) / L2_UNITS_PER_SAT;
+}
+
+/**
+ * Decodes the 80-byte header of an L1 block.
+ *
+ * @param header The hex encoded block header.
+ *
+ * @throws {Error} If the header is not 80 bytes long.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const header = utils.parseBlockHeader('<BLOCK_HEADER_HEX>');
+ * console.log(`Block ${header.hash} follows ${header.prevHash}`);
+ */
+export function parseBlockHeader(header: string): L1BlockHeader {
+  const bytes = hex.decode(header);
+  if (bytes.length !== 80) throw new Error('Block header must be 80 bytes');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The hashes are displayed in the reverse byte order.
+  const toHash = (data: Uint8Array) => hex.encode(data.slice().reverse());
+  return {
+    hash: toHash(sha256x2(bytes)),
+    version: view.getInt32(0, true),
+    prevHash: toHash(bytes.subarray(4, 36)),
+    merkleRoot: toHash(bytes.subarray(36, 68)),
+    time: view.getUint32(68, true),
+    bits: view.getUint32(72, true),
+    nonce: view.getUint32(76, true),
+  };
+}
+
+/**
+ * The compact encodings of the minimal proof-of-work targets of the Bitcoin networks.
+ * @readonly
+ */
+export const POW_LIMIT_BITS: Record<BitcoinNetworkName, number> = {
+  mainnet: 0x1d00ffff,
+  testnet: 0x1d00ffff,
+  testnet4: 0x1d00ffff,
+  signet: 0x1e0377ae,
+  regtest: 0x207fffff,
+};
+
+/**
+ * Returns whether the hash of the block header meets the proof-of-work target encoded in its `bits`,
+ * and whether the target does not exceed the minimal proof-of-work of the network.
+ *
+ * @param header The decoded block header.
+ * @param [powLimitBits] The compact encoding of the minimal proof-of-work target, e.g. one of {@link POW_LIMIT_BITS}.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const header = utils.parseBlockHeader('<BLOCK_HEADER_HEX>');
+ * const isValid = utils.hasValidProofOfWork(header, utils.POW_LIMIT_BITS.mainnet);
+ */
+export function hasValidProofOfWork(
+  header: L1BlockHeader,
+  powLimitBits?: number
+): boolean {
+  const target = decodeTarget(header.bits);
+  if (target === undefined) return false;
+  if (powLimitBits !== undefined && target > decodeTarget(powLimitBits)!)
+    return false;
+  return BigInt(`0x${header.hash}`) <= target;
+}
+
+/**
+ * Returns the expected number of hashes required to mine the block header, computed from the target
+ * encoded in its `bits` in the same way as the chain work of Bitcoin Core, or `0n` if the target is invalid.
+ *
+ * @param header The decoded block header.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const header = utils.parseBlockHeader('<BLOCK_HEADER_HEX>');
+ * const work = utils.getBlockWork(header);
+ */
+export function getBlockWork(header: L1BlockHeader): bigint {
+  const target = decodeTarget(header.bits);
+  if (target === undefined) return 0n;
+  return (1n << 256n) / (target + 1n);
+}
+
+/**
+ * Decodes the compact encoding of the proof-of-work target, or returns `undefined` if the target
+ * is zero or negative.
+ *
+ * @param bits The compact encoding of the target.
+ */
+function decodeTarget(bits: number): bigint | undefined {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  // The sign bit makes the target negative, which is invalid.
+  if (mantissa === 0n || bits & 0x00800000) return undefined;
+  return exponent <= 3
+    ? mantissa >> BigInt(8 * (3 - exponent))
+    : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/**
+ * Verifies the proof that the transaction is included in a block, as returned by the `gettxoutproof`
+ * RPC method, and returns the header of the block. The proof consists of the block header and the
+ * partial Merkle tree defined by [BIP-37](https://github.com/bitcoin/bips/blob/master/bip-0037.mediawiki).
+ *
+ * @param proof The hex encoded proof.
+ * @param txid The transaction ID (txid).
+ *
+ * @throws {Error} If the proof is malformed, does not match the Merkle root of the block or does not
+ * contain the transaction.
+ *
+ * @example
+ *
+ * import { utils } from '@vianetwork/via-ethers';
+ *
+ * const header = utils.verifyTxOutProof('<PROOF_HEX>', '<TXID>');
+ * console.log(`Transaction is included in block ${header.hash}`);
+ */
+export function verifyTxOutProof(proof: string, txid: string): L1BlockHeader {
+  const bytes = hex.decode(proof);
+  const header = parseBlockHeader(hex.encode(bytes.subarray(0, 80)));
+
+  let offset = 80;
+  const read = (length: number) => {
+    if (offset + length > bytes.length)
+      throw new Error('Merkle proof is truncated');
+    offset += length;
+    return bytes.subarray(offset - length, offset);
+  };
+  const readCompactSize = () => {
+    const [prefix] = read(1);
+    if (prefix < 0xfd) return prefix;
+    const data = read(prefix === 0xfd ? 2 : prefix === 0xfe ? 4 : 8);
+    return Number(
+      data.reduceRight((value, byte) => (value << 8n) | BigInt(byte), 0n)
+    );
+  };
+
+  const total = new DataView(read(4).slice().buffer).getUint32(0, true);
+  const hashes = Array.from({length: readCompactSize()}, () => read(32));
+  const flags = read(readCompactSize());
+  if (offset !== bytes.length || total === 0 || hashes.length > total)
+    throw new Error('Merkle proof is malformed');
+
+  // The partial Merkle tree is traversed depth-first, as in `CPartialMerkleTree::TraverseAndExtract`.
+  const width = (height: number) => (total + (1 << height) - 1) >> height;
+  let height = 0;
+  while (width(height) > 1) height++;
+  let usedHashes = 0;
+  let usedBits = 0;
+  const matches: string[] = [];
+  const traverse = (height: number, pos: number): Uint8Array => {
+    if (usedBits >= flags.length * 8)
+      throw new Error('Merkle proof is malformed');
+    const flag = (flags[usedBits >> 3] >> (usedBits++ & 7)) & 1;
+    if (height === 0 || !flag) {
+      if (usedHashes >= hashes.length)
+        throw new Error('Merkle proof is malformed');
+      const hash = hashes[usedHashes++];
+      if (height === 0 && flag)
+        matches.push(hex.encode(hash.slice().reverse()));
+      return hash;
+    }
+    const left = traverse(height - 1, pos * 2);
+    let right = left;
+    if (pos * 2 + 1 < width(height - 1)) {
+      right = traverse(height - 1, pos * 2 + 1);
+      // Identical siblings allow forging the tree (CVE-2012-2459).
+      if (hex.encode(right) === hex.encode(left))
+        throw new Error('Merkle proof is malformed');
+    }
+    return sha256x2(left, right);
+  };
+  const root = hex.encode(traverse(height, 0).reverse());
+  if (usedHashes !== hashes.length || (usedBits + 7) >> 3 !== flags.length)
+    throw new Error('Merkle proof is malformed');
+
+  if (root !== header.merkleRoot)
+    throw new Error('Merkle proof does not match the Merkle root of the block');
+  if (!matches.includes(txid))
+    throw new Error(`Merkle proof does not contain transaction ${txid}`);
+  return header;
+}
@@ -1,45 +1,78 @@
 import {EIP712Signer} from './signer';
 import {Provider} from './provider';
-import {EIP712_TX_TYPE, serializeEip712} from './utils';
+import {
+  detectBtcNetwork,
+  EIP712_TX_TYPE,
+  isBtcNetworkEq,
+  serializeEip712,
+} from './utils';
 import {
   BigNumberish,
   BlockTag,
   ethers,
+  HDNodeWallet,
+  Mnemonic,
   SigningKey,
   Overrides,
   ProgressCallback,
 } from 'ethers';
 import {
   Address,
+  BitcoinL1Provider,
+  DepositBatchDetails,
+  DepositBatchResponse,
+  DepositDetails,
+  DepositEstimate,
+  DepositInclusion,
+  DepositOptions,
+  DepositResponse,
   Fee,
+  L1Account,
+  L1Signer,
+  L1Utxo,
   PaymasterParams,
   TransactionLike,
+  TransactionReceipt,
   TransactionRequest,
   TransactionResponse,
+  WithdrawalDetails,
 } from './types';
 import {AdapterL1, AdapterL2} from './adapters';
+import {toBitcoinL1Provider} from './l1-provider';
+import {PrivateKeyL1Signer} from './l1-signer';
 import BitcoinClient from 'bitcoin-core';
 import {SelectionStrategy} from '@scure/btc-signer/utxo';
 import {BTC_NETWORK, NETWORK} from '@scure/btc-signer/utils';
+import * as btc from '@scure/btc-signer';
+import {hex} from '@scure/base';
+
+/** The number of consecutive unused addresses after which the scanning of an HD chain stops. */
+const DEFAULT_GAP_LIMIT = 20;
 
 /**
  * A `WalletL1` provides actions for L1 network.
  */
 export class WalletL1 extends AdapterL1 {
-  /** The private key of the L1 account in WIF format. */
-  readonly signingKey: string;
+  /** The private key of the L1 account in WIF format, set if the wallet is not created from an {@link L1Signer}. */
+  readonly signingKey?: string;
+  /** The signer of the inputs which spend the outputs of the L1 account. */
+  readonly signer: L1Signer;
   /** The address of the associated L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`. */
   readonly address: string;
   /** The provider instance for connecting to a L1 network. */
-  readonly provider?: BitcoinClient;
+  readonly provider?: BitcoinClient | BitcoinL1Provider;
   /** The L1 network configuration. */
   readonly network: BTC_NETWORK;
+  /** The BIP32 account node and the scanning options, set if the wallet is created from a mnemonic. */
+  protected _hd?: {account: HDNodeWallet; purpose: 84 | 86; gapLimit: number};
 
   /**
-   * @param privateKey The private key of the L1 account in WIF format.
+   * @param privateKey The private key of the L1 account in WIF format, or the {@link L1Signer} holding it,
+   * e.g. {@link BitcoinCoreL1Signer}.
    * @param address The address of the associated L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`.
-   * @param [provider] The provider instance for connecting to a L1 network.
-   * @param [network] The L1 network configuration.
+   * @param [provider] The provider instance for connecting to a L1 network. Either a `bitcoin-core` client
+   * or any {@link BitcoinL1Provider} implementation (e.g. {@link EsploraProvider}).
+   * @param [network] The L1 network configuration. If not provided, it is detected from the address.
    * @param [providerL2] The provider instance for connecting to a L2 network.
    *
    * @example
@@ -59,28 +92,108 @@ export class WalletL1 extends AdapterL1 {
    * const wallet = new Wallet(PRIVATE_KEY, ADDRESS providerL1, utils.REGTEST_NETWORK);
    */
   constructor(
-    privateKey: string,
+    privateKey: string | L1Signer,
     address: string,
-    provider?: BitcoinClient | null,
+    provider?: BitcoinClient | BitcoinL1Provider | null,
     network?: BTC_NETWORK,
     providerL2?: Provider | null
   ) {
     super();
-    this._signingKey = privateKey;
-    this.signingKey = privateKey;
-
     this._address = address;
     this.address = address;
 
-    this._network = network ?? NETWORK;
-    this.network = network ?? NETWORK;
+    this._network = network ?? detectBtcNetwork(address) ?? NETWORK;
+    this.network = this._network;
 
-    this._providerL1 = provider ?? undefined;
+    if (typeof privateKey === 'string') {
+      this.signingKey = privateKey;
+      this._signer = new PrivateKeyL1Signer(privateKey, this._network);
+    } else {
+      this._signer = privateKey;
+    }
+    this.signer = this._signer;
+
+    this._providerL1 = provider ? toBitcoinL1Provider(provider) : undefined;
     this.provider = provider ?? undefined;
 
     this._providerL2 = providerL2 ?? undefined;
   }
 
+  /**
+   * Creates a new HD `WalletL1` whose keys are derived from the mnemonic phrase using BIP84 (`wpkh`)
+   * or BIP86 (`tr`) derivation paths. The associated address is the first address of the receive chain.
+   *
+   * Deposits spend the outputs of all addresses found by scanning the receive and change chains
+   * up to the gap limit, and send the change to the first unused address of the change chain.
+   * An address is considered used if it has received any transaction, even if its outputs are
+   * spent already, so the L1 provider has to implement {@link BitcoinL1Provider.listReceivedTransactions}.
+   * When using a `bitcoin-core` client, the derived addresses have to be imported into the node wallet.
+   *
+   * @param mnemonic The mnemonic phrase.
+   * @param [opts] The derivation options.
+   * @param [opts.purpose] The purpose of the derivation path, either `84` (`wpkh`) or `86` (`tr`). Defaults to `84`.
+   * @param [opts.account] The account index of the derivation path. Defaults to `0`.
+   * @param [opts.network] The L1 network configuration. Coin type `0` is used for mainnet and `1` for other networks.
+   * @param [opts.gapLimit] The number of consecutive unused addresses after which scanning stops. Defaults to `20`.
+   * @param [provider] The provider instance for connecting to a L1 network.
+   * @param [providerL2] The provider instance for connecting to a L2 network.
+   *
+   * @example
+   *
+   * import { WalletL1, Provider, types, utils } from '@vianetwork/via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const MNEMONIC = 'stuff slice staff easily soup parent arm payment cotton hammer scatter struggle';
+   *
+   * const provider = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const wallet = WalletL1.fromMnemonic(
+   *   MNEMONIC,
+   *   { purpose: 86, network: utils.REGTEST_NETWORK },
+   *   provider,
+   *   providerL2
+   * );
+   */
+  static fromMnemonic(
+    mnemonic: string,
+    opts?: {
+      purpose?: 84 | 86;
+      account?: number;
+      network?: BTC_NETWORK;
+      gapLimit?: number;
+    },
+    provider?: BitcoinClient | BitcoinL1Provider,
+    providerL2?: Provider
+  ): WalletL1 {
+    const network = opts?.network ?? NETWORK;
+    const purpose = opts?.purpose ?? 84;
+    const coinType = network.bech32 === NETWORK.bech32 ? 0 : 1;
+    const seed = Mnemonic.fromPhrase(mnemonic).computeSeed();
+    const hd = {
+      account: HDNodeWallet.fromSeed(seed).derivePath(
+        `m/${purpose}'/${coinType}'/${opts?.account ?? 0}'`
+      ),
+      purpose,
+      gapLimit: opts?.gapLimit ?? DEFAULT_GAP_LIMIT,
+    };
+
+    const {signingKey, address} = deriveL1Account(hd, network, 0, 0);
+    const wallet = new WalletL1(
+      signingKey,
+      address,
+      provider,
+      network,
+      providerL2
+    );
+    wallet._hd = hd;
+    return wallet;
+  }
+
   /**
    * @inheritDoc
    *
@@ -105,12 +218,14 @@ export class WalletL1 extends AdapterL1 {
    *   to: l2Recipient,
    *   amount: 70_000_000n
    * });
+   * const receipt = await tx.wait();
    */
   override async deposit(transaction: {
     to: Address;
     amount: BigNumberish;
     strategy?: SelectionStrategy;
-  }): Promise<string> {
+    opts?: DepositOptions;
+  }): Promise<DepositResponse> {
     return super.deposit(transaction);
   }
 
@@ -120,6 +235,8 @@ export class WalletL1 extends AdapterL1 {
    * @param provider The provider instance for connecting to a L1 network.
    * @param network The L1 network configuration.
    *
+   * @throws {Error} If the wallet is derived from a mnemonic and `network` differs from its current network.
+   *
    * @example
    *
    * import { WalletL1, utils } from '@vianetwork/via-ethers';
@@ -138,8 +255,108 @@ export class WalletL1 extends AdapterL1 {
    * const unconnectedWallet = new WalletL1(PRIVATE_KEY, ADDRESS, provider);
    * const wallet = unconnectedWallet.connect(providerL1, utils.REGTEST_NETWORK);
    */
-  connect(provider: BitcoinClient, network: BTC_NETWORK): WalletL1 {
-    return new WalletL1(this._signingKey, this._address, provider, network);
+  connect(
+    provider: BitcoinClient | BitcoinL1Provider,
+    network: BTC_NETWORK
+  ): WalletL1 {
+    if (this._hd && !isBtcNetworkEq(network, this._network)) {
+      throw new Error(
+        'HD wallet is derived for another L1 network, derive it from the mnemonic again'
+      );
+    }
+    const wallet = new WalletL1(
+      this.signingKey ?? this._signer,
+      this._address,
+      provider,
+      network,
+      this._providerL2
+    );
+    wallet._hd = this._hd;
+    return wallet;
+  }
+
+  /**
+   * Connects to the L2 network using `provider`, keeping the L1 provider and network configuration.
+   *
+   * @param provider The provider instance for connecting to a L2 network.
+   *
+   * @example
+   *
+   * import { WalletL1, Provider, types, utils } from '@vianetwork/via-ethers';
+   *
+   * const MNEMONIC = 'stuff slice staff easily soup parent arm payment cotton hammer scatter struggle';
+   *
+   * const unconnectedWallet = WalletL1.fromMnemonic(MNEMONIC, { network: utils.REGTEST_NETWORK });
+   * const wallet = unconnectedWallet.connectToL2(Provider.getDefaultProvider(types.Network.Localhost));
+   */
+  connectToL2(provider: Provider | null): WalletL1 {
+    const wallet = new WalletL1(
+      this.signingKey ?? this._signer,
+      this._address,
+      this.provider,
+      this._network,
+      provider
+    );
+    wallet._hd = this._hd;
+    return wallet;
+  }
+
+  protected override async _getL1Accounts(): Promise<{
+    accounts: L1Account[];
+    changeAddress: string;
+  }> {
+    if (!this._hd) return super._getL1Accounts();
+
+    const receive = await this._scanL1Chain(0);
+    const change = await this._scanL1Chain(1);
+    return {
+      accounts: [...receive.accounts, ...change.accounts],
+      changeAddress: deriveL1Account(
+        this._hd,
+        this._network,
+        1,
+        change.nextIndex
+      ).address,
+    };
+  }
+
+  /**
+   * Scans the HD chain until the gap limit of consecutive unused addresses is reached.
+   *
+   * @param chain The chain index, `0` for receive and `1` for change addresses.
+   * @returns The used accounts of the chain and the index of the first unused address after them.
+   *
+   * @throws {Error} If the L1 provider cannot list the transactions received by an address.
+   */
+  protected async _scanL1Chain(
+    chain: number
+  ): Promise<{accounts: L1Account[]; nextIndex: number}> {
+    const provider = this._providerL1!;
+    if (!provider.listReceivedTransactions)
+      throw new Error(
+        'L1 provider does not support listing the received transactions'
+      );
+    const {gapLimit} = this._hd!;
+    const accounts: L1Account[] = [];
+    let nextIndex = 0;
+    for (let start = 0; start < nextIndex + gapLimit; start += gapLimit) {
+      const batch: L1Account[] = [];
+      for (let index = start; index < start + gapLimit; index++) {
+        batch.push(deriveL1Account(this._hd!, this._network, chain, index));
+      }
+      // An address whose outputs are all spent is used as well, so that it is not handed out again.
+      const received = await Promise.all(
+        batch.map(account =>
+          provider.listReceivedTransactions!(account.address)
+        )
+      );
+      batch.forEach((account, i) => {
+        if (received[i].length === 0) return;
+        accounts.push(account);
+        nextIndex = start + i + 1;
+      });
+    }
+    return {accounts, nextIndex};
   }
 }
 
@@ -492,7 +709,7 @@ export class WalletL2 extends AdapterL2 {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await wallet.withdraw({
    *   to: l1Recipient
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    * });
    *
    * @example Withdraw BTC using paymaster to facilitate fee payment with an ERC20 token.
@@ -509,7 +726,7 @@ export class WalletL2 extends AdapterL2 {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await wallet.withdraw({
    *   to: l1Recipient,
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
    *     type: 'ApprovalBased',
    *     token: token,
@@ -523,6 +740,7 @@ export class WalletL2 extends AdapterL2 {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionResponse> {
     return super.withdraw(transaction);
   }
@@ -771,7 +989,7 @@ export class Wallet {
   /**
    * @param privateKeyL2 The private key of the L2 account.
    * @param [providerL2] The provider instance for connecting to a L2 network.
-   * @param [privateKeyL1] The private key of the L1 account in WIF format.
+   * @param [privateKeyL1] The private key of the L1 account in WIF format, or the {@link L1Signer} holding it.
    * @param [addressL1] The address of the associated L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`.
    * @param [providerL1] The provider instance for connecting to a L1 network.
    * @param [networkL1] The L1 network configuration.
@@ -797,9 +1015,9 @@ export class Wallet {
   constructor(
     privateKeyL2: string | ethers.SigningKey,
     providerL2?: Provider | null,
-    privateKeyL1?: string,
+    privateKeyL1?: string | L1Signer,
     addressL1?: string,
-    providerL1?: BitcoinClient | null,
+    providerL1?: BitcoinClient | BitcoinL1Provider | null,
     networkL1?: BTC_NETWORK
   ) {
     this._walletL2 = new WalletL2(privateKeyL2, providerL2);
@@ -841,6 +1059,13 @@ export class Wallet {
     return this._walletL1?.signingKey;
   }
 
+  /**
+   * The L1 signer used for signing the inputs of L1 transactions.
+   */
+  get signerL1() {
+    return this._walletL1?.signer;
+  }
+
   /**
    * Returns the address of the associated L2 account.
    */
@@ -873,14 +1098,9 @@ export class Wallet {
    * const wallet = unconnectedWallet.connect(provider);
    */
   connect(provider: Provider): Wallet {
-    return new Wallet(
-      this._walletL2.signingKey,
-      provider,
-      this._walletL1?.signingKey,
-      this._walletL1?.address,
-      this._walletL1?.provider,
-      this._walletL1?.network
-    );
+    const wallet = new Wallet(this._walletL2.signingKey, provider);
+    wallet._walletL1 = this._walletL1?.connectToL2(provider);
+    return wallet;
   }
 
   /**
@@ -911,27 +1131,36 @@ export class Wallet {
    * const unconnectedWallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1);
    * const wallet = unconnectedWallet.connectToL1(providerL1, utils.REGTEST_NETWORK);
    */
-  connectToL1(provider: BitcoinClient, network: BTC_NETWORK): Wallet {
-    return new Wallet(
+  connectToL1(
+    provider: BitcoinClient | BitcoinL1Provider,
+    network: BTC_NETWORK
+  ): Wallet {
+    const wallet = new Wallet(
       this._walletL2.signingKey,
-      this._walletL2.provider,
-      this._walletL1?.signingKey,
-      this._walletL1?.address,
-      provider,
-      network
+      this._walletL2.provider
     );
+    wallet._walletL1 = this._walletL1?.connect(provider, network);
+    return wallet;
   }
 
   /**
-   * Creates a new `Wallet` with the L2 and L1 providers, L1 private key and
-   * a private key that is built from the mnemonic passphrase.
+   * Creates a new `Wallet` with the L2 and L1 providers and the private keys that are built from
+   * the mnemonic passphrase. The L2 key uses the default Ethereum derivation path, while the L1 key
+   * and address are derived using BIP84 (`wpkh`) or BIP86 (`tr`) as in {@link WalletL1.fromMnemonic}.
+   * The L1 key is derived only if `privateKeyL1` and `addressL1` are not provided.
    *
-   * @param mnemonic The mnemonic of the L2 private key.
+   * @param mnemonic The mnemonic of the L2 and L1 private keys.
    * @param [providerL2] The provider instance for connecting to a L2 network.
    * @param [privateKeyL1] The private key of the L1 account in WIF format.
    * @param [addressL1] The address of the associated L1 account. Supported types: `tr`, `sh`, `wpkh`, `pkh`.
    * @param [providerL1] The provider instance for connecting to a L1 network.
    * @param [networkL1] The L1 network configuration.
+   * @param [optsL1] The derivation options of the L1 key.
+   * @param [optsL1.purpose] The purpose of the derivation path, either `84` (`wpkh`) or `86` (`tr`). Defaults to `84`.
+   * @param [optsL1.account] The account index of the derivation path. Defaults to `0`.
+   * @param [optsL1.gapLimit] The number of consecutive unused addresses after which scanning stops. Defaults to `20`.
+   *
+   * @throws {Error} If only one of `privateKeyL1` and `addressL1` is provided.
    *
    * @example
    *
@@ -939,10 +1168,7 @@ export class Wallet {
    * import BitcoinClient from 'bitcoin-core';
    *
    * const MNEMONIC = 'stuff slice staff easily soup parent arm payment cotton hammer scatter struggle';
-   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
-   * const ADDRESS = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
    *
-   * const provider = Provider.getDefaultProvider(types.Network.Localhost);
    * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
    * const providerL1 = new BitcoinClient({
    *     host: 'http://127.0.0.1:18443',
@@ -950,25 +1176,39 @@ export class Wallet {
    *     password: 'rpc-password',
    *     wallet: 'Personal',
    * });
-   * const wallet = Wallet.fromMnemonic(MNEMONIC, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL2, utils.REGTEST_NETWORK);
+   * const wallet = Wallet.fromMnemonic(MNEMONIC, providerL2, undefined, undefined, providerL1, utils.REGTEST_NETWORK, { purpose: 86 });
    */
   static fromMnemonic(
     mnemonic: string,
     providerL2?: Provider,
     privateKeyL1?: string,
     addressL1?: string,
-    providerL1?: BitcoinClient,
-    networkL1?: BTC_NETWORK
+    providerL1?: BitcoinClient | BitcoinL1Provider,
+    networkL1?: BTC_NETWORK,
+    optsL1?: {purpose?: 84 | 86; account?: number; gapLimit?: number}
   ): Wallet {
-    const wallet = WalletL2.fromMnemonic(mnemonic, providerL2);
-    return new Wallet(
-      wallet.signingKey,
-      wallet.provider,
+    // Otherwise, the missing one would be derived and might not match the provided one.
+    if (!privateKeyL1 !== !addressL1)
+      throw new Error(
+        'Both `privateKeyL1` and `addressL1` have to be provided, or neither'
+      );
+    const walletL2 = WalletL2.fromMnemonic(mnemonic, providerL2);
+    const wallet = new Wallet(
+      walletL2.signingKey,
+      walletL2.provider,
       privateKeyL1,
       addressL1,
       providerL1,
       networkL1
     );
+    if (!privateKeyL1)
+      wallet._walletL1 = WalletL1.fromMnemonic(
+        mnemonic,
+        {...optsL1, network: networkL1},
+        providerL1,
+        providerL2
+      );
+    return wallet;
   }
 
   /**
@@ -1069,7 +1309,7 @@ export class Wallet {
     providerL2?: Provider,
     privateKeyL1?: string,
     addressL1?: string,
-    providerL1?: BitcoinClient,
+    providerL1?: BitcoinClient | BitcoinL1Provider,
     networkL1?: BTC_NETWORK
   ): Wallet {
     const wallet = ethers.Wallet.createRandom();
@@ -1134,6 +1374,74 @@ export class Wallet {
     return this._walletL2.getBalance(token, blockTag);
   }
 
+  /**
+   * Returns the balance of the L1 account in satoshi.
+   *
+   * @param [opts] The options for counting the outputs.
+   * @param [opts.minConf] The minimum number of confirmations of the counted outputs. Defaults to 1.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * console.log(`L1 balance: ${await wallet.getBalanceL1({minConf: 0})}`);
+   */
+  async getBalanceL1(opts?: {minConf?: number}): Promise<bigint> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.getBalance(opts);
+  }
+
+  /**
+   * Returns the unspent outputs of the L1 account.
+   *
+   * @param [opts] The options for listing the outputs.
+   * @param [opts.minConf] The minimum number of confirmations of the listed outputs. Defaults to 1.
+   * @param [opts.maxConf] The maximum number of confirmations of the listed outputs.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * console.log(`L1 UTXOs: ${utils.toJSON(await wallet.listUtxosL1())}`);
+   */
+  async listUtxosL1(opts?: {
+    minConf?: number;
+    maxConf?: number;
+  }): Promise<L1Utxo[]> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.listUtxos(opts);
+  }
+
   /**
    * Returns the deployment nonce of the account.
    *
@@ -1161,6 +1469,7 @@ export class Wallet {
    * @param transaction.to The address of the recipient on L1.
    * @param [transaction.paymasterParams] Paymaster parameters.
    * @param [transaction.overrides] Transaction's overrides which may be used to pass L2 `gasLimit`, `gasPrice`, `value`, etc.
+   * @param [transaction.skipAddressValidation] Whether to skip the validation of the L1 recipient's address.
    * @returns A Promise resolving to a withdrawal transaction response.
    *
    * @example Withdraw BTC.
@@ -1175,7 +1484,7 @@ export class Wallet {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await wallet.withdraw({
    *   to: l1Recipient
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    * });
    *
    * @example Withdraw BTC using paymaster to facilitate fee payment with an ERC20 token.
@@ -1192,7 +1501,7 @@ export class Wallet {
    * const l1Recipient = '<L1_ACCOUNT_ADDRESS>';
    * const withdrawTx = await wallet.withdraw({
    *   to: l1Recipient,
-   *   amount: 10_000_000n,
+   *   amount: 10_000_000_000n,
    *   paymasterParams: utils.getPaymasterParams(paymaster, {
    *     type: 'ApprovalBased',
    *     token: token,
@@ -1206,10 +1515,90 @@ export class Wallet {
     to: Address;
     paymasterParams?: PaymasterParams;
     overrides?: Overrides;
+    skipAddressValidation?: boolean;
   }): Promise<TransactionResponse> {
     return this._walletL2.withdraw(transaction);
   }
 
+  /**
+   * Returns the current lifecycle stage of the withdrawal: included in an L2 block, committed,
+   * proven or executed on L1, or paid out to the L1 recipient.
+   *
+   * @param l2TxHash The hash of the L2 withdrawal transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const withdrawTx = await wallet.withdraw({
+   *   to: ADDRESS_L1,
+   *   amount: 10_000_000_000n,
+   * });
+   * console.log(`Withdrawal status: ${utils.toJSON(await wallet.getWithdrawalStatus(withdrawTx.hash))}`);
+   */
+  async getWithdrawalStatus(l2TxHash: string): Promise<WithdrawalDetails> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.getWithdrawalStatus(l2TxHash);
+  }
+
+  /**
+   * Waits for the withdrawn BTC to be paid to the L1 recipient.
+   *
+   * @param l2TxHash The hash of the L2 withdrawal transaction.
+   * @param [opts] The options for waiting.
+   * @param [opts.timeout] The number of milliseconds after which waiting fails.
+   * @param [opts.signal] The signal for aborting the waiting.
+   * @returns A promise that resolves to the details of the paid out withdrawal.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const withdrawTx = await wallet.withdraw({
+   *   to: ADDRESS_L1,
+   *   amount: 10_000_000_000n,
+   * });
+   * const {payoutTxid} = await wallet.waitForWithdrawalPayout(withdrawTx.hash);
+   * console.log(`Payout txid: ${payoutTxid}`);
+   */
+  async waitForWithdrawalPayout(
+    l2TxHash: string,
+    opts?: {timeout?: number; signal?: AbortSignal}
+  ): Promise<WithdrawalDetails> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.waitForWithdrawalPayout(l2TxHash, opts);
+  }
+
   /**
    * Transfer BTC or any ERC20 token within the same interface.
    *
@@ -1327,6 +1716,51 @@ export class Wallet {
     return this._walletL2.transfer(transaction);
   }
 
+  /**
+   * Sends BTC from the L1 account to the L1 address.
+   *
+   * @param transaction The transfer transaction request.
+   * @param transaction.to The L1 address of the recipient.
+   * @param transaction.amount The amount in satoshi.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters, the same as the ones accepted by {@link deposit}.
+   * @returns The transaction ID (txid) of the broadcasted L1 transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const txid = await wallet.transferL1({
+   *   to: '<L1_RECIPIENT_ADDRESS>',
+   *   amount: 100_000n,
+   * });
+   */
+  async transferL1(transaction: {
+    to: string;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<string> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.transfer(transaction);
+  }
+
   /**
    * Transfers the specified token from the associated account on the L1 network to the target account on the L2 network.
    *
@@ -1335,6 +1769,15 @@ export class Wallet {
    * @param transaction.amount The amount of the token to deposit.
    * @param [transaction.strategy] The UTXO selection strategy. For more details visit
    * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Additional options for the deposit transaction.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Defaults to the L1 gas price of the L2 provider.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided.
+   * @param [transaction.opts.minFeePerByte] The minimum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.maxFeePerByte] The maximum amount of satoshi per vbyte, which the chosen fee rate is clamped to.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   * @returns The response of the broadcasted L1 transaction which can be used for tracking the deposit.
+   * Previously the txid was returned, which is now available as the `hash` of the response.
    *
    * @example
    *
@@ -1359,17 +1802,434 @@ export class Wallet {
    *   to: l2Recipient,
    *   amount: 70_000_000n
    * });
+   * const receipt = await tx.wait();
    */
   async deposit(transaction: {
     to: Address;
     amount: BigNumberish;
     strategy?: SelectionStrategy;
-  }): Promise<string> {
+    opts?: DepositOptions;
+  }): Promise<DepositResponse> {
     if (!this._walletL1)
       throw new Error('Wallet is not connected to L1 network');
     return await this._walletL1.deposit(transaction);
   }
 
+  /**
+   * Returns the current lifecycle stage of the deposit: in the L1 mempool, confirmed on L1,
+   * picked up by the sequencer, included in an L2 block or finalized.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const TXID = '<DEPOSIT_TXID>';
+   * console.log(`Deposit status: ${utils.toJSON(await wallet.getDepositStatus(TXID))}`);
+   */
+  async getDepositStatus(txid: string): Promise<DepositDetails> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.getDepositStatus(txid);
+  }
+
+  /**
+   * Waits for the deposit to be included in an L2 block.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param [opts] The options for waiting.
+   * @param [opts.l1Confirmations] The minimum number of L1 confirmations of the deposit transaction. Defaults to 1.
+   * The confirmations are counted by the L1 provider, which has to know the transaction (e.g. a `bitcoind`
+   * node with the transaction index). Set it to 0 to only wait for the L2 inclusion.
+   * @param [opts.timeout] The number of milliseconds after which waiting fails.
+   * @param [opts.signal] The signal for aborting the waiting.
+   * @returns A promise that resolves to the receipt of the L2 priority transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const TXID = '<DEPOSIT_TXID>';
+   * const receipt = await wallet.waitForDeposit(TXID, { timeout: 600_000 });
+   */
+  async waitForDeposit(
+    txid: string,
+    opts?: {
+      l1Confirmations?: number;
+      timeout?: number;
+      signal?: AbortSignal;
+    }
+  ): Promise<TransactionReceipt> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.waitForDeposit(txid, opts);
+  }
+
+  /**
+   * Bumps the fee of a deposit transaction which is stuck in the mempool, either by replacing
+   * it (BIP-125) or by spending its change output in a child transaction (CPFP).
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param opts The fee bumping options.
+   * @param opts.newFeePerByte The new amount of satoshi per vbyte.
+   * @param [opts.method] The fee bumping method, either `rbf` or `cpfp`. Defaults to `rbf`.
+   * @param [opts.strategy] The UTXO selection strategy for the additional inputs of the replacement.
+   * @param [opts.incrementalFeePerByte] The incremental relay fee rate of the L1 nodes in satoshi per vbyte,
+   * which the replacement has to pay for its own size on top of the fee of the original. Defaults to `1`.
+   * @returns The response of the deposit, which is the replacement in case of the `rbf` method.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const tx = await wallet.deposit({
+   *   to: await wallet.getAddress(),
+   *   amount: 70_000_000n,
+   *   opts: { feePerByte: 1n, rbf: true },
+   * });
+   * const replacement = await wallet.bumpDepositFee(tx.hash, { newFeePerByte: 20n });
+   * const receipt = await replacement.wait();
+   */
+  async bumpDepositFee(
+    txid: string,
+    opts: {
+      newFeePerByte: bigint;
+      method?: 'rbf' | 'cpfp';
+      strategy?: SelectionStrategy;
+      incrementalFeePerByte?: bigint;
+    }
+  ): Promise<DepositResponse> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.bumpDepositFee(txid, opts);
+  }
+
+  /**
+   * Transfers the specified amounts from the associated account on the L1 network to many target
+   * accounts on the L2 network using a single L1 transaction.
+   *
+   * The batch deposit is experimental, since the bridge does not specify deposits with many
+   * `OP_RETURN` outputs and relaying them requires the policy of Bitcoin Core 30 or later.
+   *
+   * @param deposits The deposits of the batch.
+   * @param transaction The batch deposit transaction request.
+   * @param transaction.experimental Has to be `true` to acknowledge that the batch deposit is experimental.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters, the same as the ones accepted by {@link deposit}.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const tx = await wallet.depositBatch(
+   *   [
+   *     { to: '<L2_ACCOUNT_ADDRESS_1>', amount: 10_000_000n },
+   *     { to: '<L2_ACCOUNT_ADDRESS_2>', amount: 20_000_000n },
+   *   ],
+   *   { experimental: true }
+   * );
+   * await tx.wait();
+   * const { deposits } = await tx.getStatus();
+   */
+  async depositBatch(
+    deposits: {to: Address; amount: BigNumberish}[],
+    transaction: {
+      experimental: boolean;
+      strategy?: SelectionStrategy;
+      opts?: DepositOptions;
+    }
+  ): Promise<DepositBatchResponse> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.depositBatch(deposits, transaction);
+  }
+
+  /**
+   * Returns the current lifecycle stage of the batch deposit, together with the L2 crediting
+   * status of each recipient, which only reflects the transfers of the L2 priority transaction.
+   *
+   * @param txid The transaction ID (txid) of the L1 batch deposit transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const TXID = '<BATCH_DEPOSIT_TXID>';
+   * console.log(`Batch deposit status: ${utils.toJSON(await wallet.getDepositBatchStatus(TXID))}`);
+   */
+  async getDepositBatchStatus(txid: string): Promise<DepositBatchDetails> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.getDepositBatchStatus(txid);
+  }
+
+  /**
+   * Verifies that the deposit is included in a block of the L1 network using simplified payment
+   * verification (SPV), rather than trusting the status reported by the L1 provider.
+   * See {@link WalletL1.verifyDepositInclusion} for the trust model of the verified headers.
+   *
+   * @param txid The transaction ID (txid) of the L1 deposit transaction.
+   * @param [opts] The options for verifying.
+   * @param [opts.confirmations] The required number of confirmations, whose headers are verified. Defaults to 1.
+   * @param [opts.minChainWork] The minimum total work of the verified headers (see {@link utils.getBlockWork}).
+   * @param [opts.powLimitBits] The compact encoding of the minimal proof-of-work target of the network. Defaults to
+   * the one of the known network matching the L1 network configuration (see {@link utils.POW_LIMIT_BITS}).
+   * @returns The block containing the deposit transaction, the number of its confirmations and the total work
+   * of the verified headers.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const TXID = '<DEPOSIT_TXID>';
+   * const MIN_CHAIN_WORK = BigInt('<WORK_OF_6_BLOCKS_FROM_A_TRUSTED_SOURCE>');
+   * const inclusion = await wallet.verifyDepositInclusion(TXID, {confirmations: 6, minChainWork: MIN_CHAIN_WORK});
+   * console.log(`Deposit is included in block ${inclusion.blockHeight}`);
+   */
+  async verifyDepositInclusion(
+    txid: string,
+    opts?: {
+      confirmations?: number;
+      minChainWork?: bigint;
+      powLimitBits?: number;
+    }
+  ): Promise<DepositInclusion> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.verifyDepositInclusion(txid, opts);
+  }
+
+  /**
+   * Estimates the deposit without signing or broadcasting the transaction.
+   *
+   * @param transaction The deposit transaction request.
+   * @param transaction.to The address that will receive the deposited tokens on L2.
+   * @param transaction.amount The amount of the token to deposit.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided.
+   * @param [transaction.opts.alwaysChange] Weather to always create change, even if less than dust threshold.
+   * @param [transaction.opts.dust] The vbyte threshold below which outputs are considered dust and avoided.
+   * @param [transaction.opts.dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   * @returns The selected inputs, the outputs, the size and the fee of the deposit transaction.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const estimate = await wallet.estimateDeposit({
+   *   to: await wallet.getAddress(),
+   *   amount: 70_000_000n
+   * });
+   * console.log(`Deposit fee: ${estimate.fee} sats (${estimate.effectiveFeeRate} sat/vB)`);
+   */
+  async estimateDeposit(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<DepositEstimate> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.estimateDeposit(transaction);
+  }
+
+  /**
+   * Creates an unsigned deposit transaction in the BIP-174 PSBT format, so that it can be signed
+   * by an external or hardware signer.
+   *
+   * @param transaction The deposit transaction request.
+   * @param transaction.to The address that will receive the deposited tokens on L2.
+   * @param transaction.amount The amount of the token to deposit.
+   * @param [transaction.strategy] The UTXO selection strategy. For more details visit
+   * [this link](https://github.com/paulmillr/scure-btc-signer/tree/1.7.0?tab=readme-ov-file#utxo-selection).
+   * @param [transaction.opts] Optional transaction customization parameters.
+   * @param [transaction.opts.feePerByte] The fixed amount of satoshi per vbyte. Takes precedence over `feeRateTier`.
+   * @param [transaction.opts.feeRateTier] The fee rate tier (`economy`, `normal` or `priority`) whose estimate is used
+   * when `feePerByte` is not provided.
+   * @param [transaction.opts.alwaysChange] Weather to always create change, even if less than dust threshold.
+   * @param [transaction.opts.dust] The vbyte threshold below which outputs are considered dust and avoided.
+   * @param [transaction.opts.dustRelayFeeRate] The relay fee rate (satoshi per vbyte) to define what is considered dust.
+   * @param [transaction.opts.rbf] Whether to signal BIP-125 replaceability, so that the fee can be bumped later.
+   *
+   * @see {@link finalizeAndBroadcastDepositPsbt} in order to broadcast the signed PSBT.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const psbt = await wallet.buildDepositPsbt({
+   *   to: await wallet.getAddress(),
+   *   amount: 70_000_000n
+   * });
+   */
+  async buildDepositPsbt(transaction: {
+    to: Address;
+    amount: BigNumberish;
+    strategy?: SelectionStrategy;
+    opts?: DepositOptions;
+  }): Promise<Uint8Array> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.buildDepositPsbt(transaction);
+  }
+
+  /**
+   * Finalizes the signed deposit PSBT and broadcasts it to the L1 network.
+   *
+   * @param psbt The signed PSBT, either serialized or encoded in base64.
+   *
+   * @throws {Error} If the transaction is not a valid deposit to the bridge address.
+   *
+   * @see {@link buildDepositPsbt} in order to create the unsigned PSBT.
+   *
+   * @example
+   *
+   * import { Wallet, Provider, types, utils } from 'via-ethers';
+   * import BitcoinClient from 'bitcoin-core';
+   *
+   * const PRIVATE_KEY_L2 = '<L2_WALLET_PRIVATE_KEY>';
+   * const PRIVATE_KEY_L1 = '<L1_WALLET_PRIVATE_KEY_IN_WIF_FORMAT>';
+   * const ADDRESS_L1 = '<WALLET_ADDRESS: tr|sh|wpkh|pkh>';
+   *
+   * const providerL2 = Provider.getDefaultProvider(types.Network.Localhost);
+   * const providerL1 = new BitcoinClient({
+   *     host: 'http://127.0.0.1:18443',
+   *     username: 'rpc-user',
+   *     password: 'rpc-password',
+   *     wallet: 'Personal',
+   * });
+   * const wallet = new Wallet(PRIVATE_KEY_L2, providerL2, PRIVATE_KEY_L1, ADDRESS_L1, providerL1, utils.REGTEST_NETWORK);
+   *
+   * const signedPsbt = '<SIGNED_PSBT_IN_BASE64_FORMAT>';
+   * const txid = await wallet.finalizeAndBroadcastDepositPsbt(signedPsbt);
+   */
+  async finalizeAndBroadcastDepositPsbt(
+    psbt: Uint8Array | string
+  ): Promise<DepositResponse> {
+    if (!this._walletL1)
+      throw new Error('Wallet is not connected to L1 network');
+    return await this._walletL1.finalizeAndBroadcastDepositPsbt(psbt);
+  }
+
   /**
    * Gets the next nonce required for account to send a transaction.
    *
@@ -1601,3 +2461,32 @@ export class Wallet {
     return await this._walletL2.sendTransaction(transaction);
   }
 }
+
+/**
+ * Derives the L1 account at the given chain and index of the BIP32 account node.
+ *
+ * @param hd The BIP32 account node and the purpose of the derivation path.
+ * @param network The L1 network configuration.
+ * @param chain The chain index, `0` for receive and `1` for change addresses.
+ * @param index The address index.
+ */
+function deriveL1Account(
+  hd: {account: HDNodeWallet; purpose: 84 | 86},
+  network: BTC_NETWORK,
+  chain: number,
+  index: number
+): L1Account & {signingKey: string} {
+  const node = hd.account.deriveChild(chain).deriveChild(index);
+  const privateKey = hex.decode(node.privateKey.slice(2));
+  const publicKey = hex.decode(node.publicKey.slice(2));
+  const payment =
+    hd.purpose === 86
+      ? btc.p2tr(publicKey.slice(1), undefined, network)
+      : btc.p2wpkh(publicKey, network);
+  const signingKey = btc.WIF(network).encode(privateKey);
+  return {
+    signingKey,
+    address: payment.address!,
+    signer: new PrivateKeyL1Signer(signingKey, network),
+  };
+}
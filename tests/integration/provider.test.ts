@@ -1,6 +1,6 @@
 import {expect} from 'chai';
 import '../custom-matchers';
-import {Provider, types, utils, Wallet} from '../../src';
+import {InvalidL1AddressError, Provider, types, utils, Wallet} from '../../src';
 import {ethers} from 'ethers';
 import {
   ADDRESS1,
@@ -335,6 +335,45 @@ describe('Provider', () => {
       });
       expect(result).to.be.deep.equal(tx);
     });
+
+    it('should throw an error when the L1 recipient is not a Bitcoin address', async () => {
+      try {
+        await provider.getWithdrawTx({
+          amount: 10_000_000_000n,
+          from: ADDRESS1,
+          to: ADDRESS2,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(InvalidL1AddressError);
+        expect((e as InvalidL1AddressError).reason).to.be.equal('malformed');
+      }
+    });
+
+    it('should throw an error when the amount is not a whole number of satoshi', async () => {
+      try {
+        await provider.getWithdrawTx({
+          amount: 10_000_000_001n,
+          from: ADDRESS1,
+          to: L1_ADDRESS1_NATIVE_SEGWIT,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Amount 10000000001 is not a whole number of satoshi, 1 would be lost'
+        );
+      }
+    });
+
+    it('should not validate the L1 recipient when the validation is skipped', async () => {
+      const result = await provider.getWithdrawTx({
+        amount: 10_000_000_000n,
+        from: ADDRESS1,
+        to: ADDRESS2,
+        skipAddressValidation: true,
+      });
+      expect(result.to).to.be.equal(utils.L2_BASE_TOKEN_ADDRESS);
+    });
   });
 
   describe('#getTransferTx()', () => {
@@ -1,6 +1,14 @@
 import * as chai from 'chai';
 import '../custom-matchers';
-import {Provider, utils, Wallet} from '../../src';
+import {
+  BitcoinCoreProvider,
+  DepositBelowMinimumError,
+  InsufficientL1FundsError,
+  Provider,
+  types,
+  utils,
+  Wallet,
+} from '../../src';
 import {ethers} from 'ethers';
 import * as fs from 'fs';
 import {
@@ -23,6 +31,8 @@ import {
   PRIVATE_KEY1,
 } from '../utils';
 import BitcoinClient from 'bitcoin-core';
+import * as btc from '@scure/btc-signer';
+import {base64} from '@scure/base';
 import {REGTEST_NETWORK, sleep} from '../../src/utils';
 
 const {expect} = chai;
@@ -80,6 +90,25 @@ describe('Wallet', () => {
     });
   });
 
+  describe('#getBalanceL1()', () => {
+    it('should return the balance of the L1 account in satoshi', async () => {
+      const utxos = await wallet.listUtxosL1();
+      const result = await wallet.getBalanceL1();
+      expect(result).to.be.equal(
+        utxos.reduce((sum, utxo) => sum + utxo.amount, 0n)
+      );
+    });
+  });
+
+  describe('#listUtxosL1()', () => {
+    it('should return the outputs of the L1 account', async () => {
+      const result = await wallet.listUtxosL1({minConf: 0});
+      expect(result.length > 0).to.be.true;
+      expect(result.every(utxo => utxo.address === L1_ADDRESS1_NATIVE_SEGWIT))
+        .to.be.true;
+    });
+  });
+
   describe('#getAddress()', () => {
     it('should return the `Wallet` address', async () => {
       const result = await wallet.getAddress();
@@ -409,15 +438,29 @@ describe('Wallet', () => {
   });
 
   describe('#fromMnemonic()', () => {
-    it('should return a `Wallet` with the `provider` as L2 provider and a private key that is built from the `mnemonic` passphrase', async () => {
+    it('should return a `Wallet` with the `provider` as L2 provider and private keys that are built from the `mnemonic` passphrase', async () => {
       const wallet = Wallet.fromMnemonic(MNEMONIC1, providerL2);
       expect(wallet.signingKey.privateKey).to.be.equal(PRIVATE_KEY1);
       expect(wallet.provider).to.be.equal(providerL2);
-      expect(wallet.signingKeyL1).to.be.undefined;
-      expect(wallet.addressL1).to.be.undefined;
+      expect(wallet.signingKeyL1).not.to.be.undefined;
+      expect(wallet.addressL1?.startsWith('bc1q')).to.be.true;
       expect(wallet.providerL1).to.be.undefined;
     });
 
+    it('should return a `Wallet` with the taproot L1 address derived from the `mnemonic` passphrase', async () => {
+      const wallet = Wallet.fromMnemonic(
+        MNEMONIC1,
+        providerL2,
+        undefined,
+        undefined,
+        providerL1,
+        REGTEST_NETWORK,
+        {purpose: 86}
+      );
+      expect(wallet.addressL1?.startsWith('bcrt1p')).to.be.true;
+      expect(wallet.providerL1).to.be.equal(providerL1);
+    });
+
     it('should return a `Wallet` connected to L1 and L2 networks', async () => {
       const wallet = Wallet.fromMnemonic(
         MNEMONIC1,
@@ -614,6 +657,282 @@ describe('Wallet', () => {
       expect(l2BalanceAfterDeposit - l2BalanceBeforeDeposit >= amount).to.be
         .true;
     }).timeout(20_000);
+
+    it('should deposit BTC to L2 network using `BitcoinCoreProvider`', async () => {
+      const wallet = new Wallet(
+        PRIVATE_KEY1,
+        providerL2,
+        L1_PRIVATE_KEY1,
+        L1_ADDRESS1_NATIVE_SEGWIT,
+        new BitcoinCoreProvider(providerL1),
+        REGTEST_NETWORK
+      );
+
+      const amount = 70_000_000n;
+      const l2BalanceBeforeDeposit = await wallet.getBalance();
+
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount,
+      });
+      expect(tx).not.to.be.null;
+      await sleep(10_000);
+
+      const l2BalanceAfterDeposit = await wallet.getBalance();
+      expect(l2BalanceAfterDeposit - l2BalanceBeforeDeposit >= amount).to.be
+        .true;
+    }).timeout(20_000);
+  });
+
+  describe('#getDepositStatus()', () => {
+    it('should return `NotFound` status for an unknown deposit', async () => {
+      const result = await wallet.getDepositStatus('00'.repeat(32));
+      expect(result.status).to.be.equal(types.DepositStatus.NotFound);
+      expect(result.l1Confirmations).to.be.equal(0);
+    });
+
+    it('should return the status of the broadcasted deposit', async () => {
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+      });
+      const result = await wallet.getDepositStatus(tx.hash);
+      expect(result.status).not.to.be.equal(types.DepositStatus.NotFound);
+    });
+  });
+
+  describe('#waitForDeposit()', () => {
+    it('should return the L2 receipt of the deposit', async () => {
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+      });
+      const receipt = await wallet.waitForDeposit(tx.hash, {timeout: 60_000});
+      expect(receipt.to).to.be.equal(wallet.address);
+
+      const result = await wallet.getDepositStatus(tx.hash);
+      expect([
+        types.DepositStatus.Included,
+        types.DepositStatus.Finalized,
+      ]).to.include(result.status);
+      expect(result.l2TxHash).to.be.equal(receipt.hash);
+    }).timeout(90_000);
+
+    it('should throw an error when the timeout is exceeded', async () => {
+      try {
+        await wallet.waitForDeposit('00'.repeat(32), {timeout: 1});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.include('Timeout exceeded');
+      }
+    });
+  });
+
+  describe('#depositBatch()', () => {
+    it('should deposit to many L2 recipients in a single L1 transaction', async () => {
+      const tx = await wallet.depositBatch(
+        [
+          {to: ADDRESS1, amount: 10_000_000n},
+          {to: ADDRESS2, amount: 20_000_000n},
+        ],
+        {experimental: true}
+      );
+      expect(tx.deposits.map(deposit => deposit.vout)).to.be.deep.equal([0, 2]);
+
+      const result = await wallet.getDepositBatchStatus(tx.hash);
+      expect(result.deposits).to.have.lengthOf(2);
+      expect(result.deposits[0].to).to.be.equal(ADDRESS1);
+      expect(result.deposits[1].amount).to.be.equal(20_000_000n);
+    });
+
+    it('should throw an error when no deposits are provided', async () => {
+      try {
+        await wallet.depositBatch([], {experimental: true});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal('No deposits provided');
+      }
+    });
+  });
+
+  describe('#bumpDepositFee()', () => {
+    it('should replace the RBF-enabled deposit with a higher fee', async () => {
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {feePerByte: 1n, rbf: true},
+      });
+      const replacement = await wallet.bumpDepositFee(tx.hash, {
+        newFeePerByte: 20n,
+      });
+      expect(replacement.hash).not.to.be.equal(tx.hash);
+
+      const result = await wallet.getDepositStatus(replacement.hash);
+      expect(result.status).not.to.be.equal(types.DepositStatus.NotFound);
+    });
+
+    it('should spend the change output of the deposit using CPFP', async () => {
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {feePerByte: 1n},
+      });
+      const result = await wallet.bumpDepositFee(tx.hash, {
+        newFeePerByte: 20n,
+        method: 'cpfp',
+      });
+      expect(result.hash).to.be.equal(tx.hash);
+    });
+
+    it('should throw an error when the new fee rate is not higher', async () => {
+      const tx = await wallet.deposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {feePerByte: 10n, rbf: true},
+      });
+      try {
+        await wallet.bumpDepositFee(tx.hash, {newFeePerByte: 1n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'New fee rate must be higher than the current fee rate'
+        );
+      }
+    });
+  });
+
+  describe('#estimateDeposit()', () => {
+    it('should return the deposit estimation', async () => {
+      const amount = 70_000_000n;
+      const result = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount,
+        opts: {feePerByte: 10n},
+      });
+
+      const bridge = result.outputs.find(output => output.type === 'bridge');
+      const inputs = result.inputs.reduce(
+        (sum, input) => sum + input.amount,
+        0n
+      );
+      expect(bridge?.address).to.be.equal(await providerL2.getBridgeAddress());
+      expect(bridge?.amount).to.be.equal(amount);
+      expect(result.outputs.some(output => output.type === 'op_return')).to.be
+        .true;
+      expect(result.feePerByte).to.be.equal(10n);
+      expect(result.fee).to.be.equal(BigInt(result.vsize) * 10n);
+      expect(inputs).to.be.equal(amount + result.fee + result.change);
+    });
+
+    it('should not select the excluded outpoints', async () => {
+      const {inputs} = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+      });
+      const excluded = inputs.map(input => `${input.txid}:${input.vout}`);
+
+      const result = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {excludeOutpoints: excluded},
+      });
+      for (const input of result.inputs) {
+        expect(excluded).not.to.include(`${input.txid}:${input.vout}`);
+      }
+    });
+
+    it('should select only the included outpoints', async () => {
+      const {inputs} = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+      });
+      const included = inputs.map(input => `${input.txid}:${input.vout}`);
+
+      const result = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {includeOutpoints: included},
+      });
+      for (const input of result.inputs) {
+        expect(included).to.include(`${input.txid}:${input.vout}`);
+      }
+    });
+
+    it('should throw an error when the amount is below the dust threshold', async () => {
+      try {
+        await wallet.estimateDeposit({to: wallet.address, amount: 100n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(DepositBelowMinimumError);
+        expect((e as DepositBelowMinimumError).amount).to.be.equal(100n);
+      }
+    });
+
+    it('should not select the UTXOs rejected by the filter', async () => {
+      try {
+        await wallet.estimateDeposit({
+          to: wallet.address,
+          amount: 70_000_000n,
+          opts: {utxoFilter: () => false},
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(InsufficientL1FundsError);
+        expect((e as InsufficientL1FundsError).available).to.be.equal(0n);
+      }
+    });
+
+    it('should select at most the maximum number of inputs', async () => {
+      const result = await wallet.estimateDeposit({
+        to: wallet.address,
+        amount: 70_000_000n,
+        opts: {maxInputs: 1},
+      });
+      expect(result.inputs).to.have.lengthOf(1);
+    });
+  });
+
+  describe('#buildDepositPsbt()', () => {
+    it('should return an unsigned deposit PSBT', async () => {
+      const psbt = await wallet.buildDepositPsbt({
+        to: wallet.address,
+        amount: 70_000_000n,
+      });
+      const tx = btc.Transaction.fromPSBT(psbt);
+
+      expect(tx.inputsLength > 0).to.be.true;
+      expect(tx.isFinal).to.be.false;
+      expect(
+        tx.getOutputAddress(0, REGTEST_NETWORK) ===
+          (await providerL2.getBridgeAddress()) ||
+          tx.getOutputAddress(1, REGTEST_NETWORK) ===
+            (await providerL2.getBridgeAddress())
+      ).to.be.true;
+    });
+  });
+
+  describe('#finalizeAndBroadcastDepositPsbt()', () => {
+    it('should broadcast the externally signed deposit PSBT', async () => {
+      const amount = 70_000_000n;
+      const l2BalanceBeforeDeposit = await wallet.getBalance();
+
+      const psbt = await wallet.buildDepositPsbt({
+        to: wallet.address,
+        amount,
+      });
+      const tx = btc.Transaction.fromPSBT(psbt);
+      tx.sign(btc.WIF(REGTEST_NETWORK).decode(L1_PRIVATE_KEY1));
+
+      const depositTx = await wallet.finalizeAndBroadcastDepositPsbt(
+        base64.encode(tx.toPSBT())
+      );
+      expect(depositTx.hash).to.be.equal(tx.id);
+      await sleep(10_000);
+
+      const l2BalanceAfterDeposit = await wallet.getBalance();
+      expect(l2BalanceAfterDeposit - l2BalanceBeforeDeposit >= amount).to.be
+        .true;
+    }).timeout(20_000);
   });
 
   describe('#withdraw()', () => {
@@ -687,6 +1006,30 @@ describe('Wallet', () => {
     }).timeout(90_000);
   });
 
+  describe('#transferL1()', () => {
+    it('should send BTC to the L1 address', async () => {
+      const txid = await wallet.transferL1({
+        to: L1_ADDRESS1_TAPROOT,
+        amount: 100_000n,
+      });
+      const tx = await new BitcoinCoreProvider(providerL1).getRawTransaction(
+        txid
+      );
+      expect(tx).not.to.be.empty;
+    });
+
+    it('should throw an error when the L1 recipient is not a Bitcoin address', async () => {
+      try {
+        await wallet.transferL1({to: ADDRESS2, amount: 100_000n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Invalid L1 address: ${ADDRESS2}`
+        );
+      }
+    });
+  });
+
   describe('#transfer()', () => {
     it('should transfer BTC', async () => {
       const amount = 7_000_000_000n;
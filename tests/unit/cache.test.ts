@@ -0,0 +1,56 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {FileSystemCache, LruCache} from '../../src';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const {expect} = chai;
+
+describe('LruCache', () => {
+  describe('#get()', () => {
+    it('should return `undefined` for a missing key', async () => {
+      const cache = new LruCache();
+      expect(await cache.get('a')).to.be.undefined;
+    });
+  });
+
+  describe('#set()', () => {
+    it('should evict the least recently used entry', async () => {
+      const cache = new LruCache(2);
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.get('a');
+      await cache.set('c', 3);
+
+      expect(await cache.get('a')).to.be.equal(1);
+      expect(await cache.get('b')).to.be.undefined;
+      expect(await cache.get('c')).to.be.equal(3);
+    });
+  });
+});
+
+describe('FileSystemCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'via-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, {recursive: true, force: true});
+  });
+
+  describe('#get()', () => {
+    it('should return the value stored by another instance', async () => {
+      await new FileSystemCache(directory).set('a', {number: 1});
+      const result = await new FileSystemCache(directory).get('a');
+      expect(result).to.be.deep.equal({number: 1});
+    });
+
+    it('should return `undefined` for a missing key', async () => {
+      const cache = new FileSystemCache(path.join(directory, 'missing'));
+      expect(await cache.get('a')).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {
+  AccountValidationError,
+  clearErrorAbis,
+  decodeRevertData,
+  ExecutionRevertedError,
+  InsufficientFundsError,
+  NonceTooLowError,
+  PaymasterValidationError,
+  RateLimitedError,
+  registerErrorAbi,
+  RpcError,
+  toRpcError,
+} from '../../src';
+import {ethers} from 'ethers';
+
+const {expect} = chai;
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+describe('decodeRevertData()', () => {
+  it('should decode `Error(string)`', async () => {
+    const data = ethers.concat([
+      '0x08c379a0',
+      coder.encode(['string'], ['Not owner']),
+    ]);
+    const result = decodeRevertData(data);
+    expect(result).to.be.deep.equal({
+      name: 'Error',
+      signature: 'Error(string)',
+      args: ['Not owner'],
+      reason: 'Not owner',
+    });
+  });
+
+  it('should decode `Panic(uint256)`', async () => {
+    const data = ethers.concat(['0x4e487b71', coder.encode(['uint256'], [17])]);
+    const result = decodeRevertData(data);
+    expect(result?.signature).to.be.equal('Panic(uint256)');
+    expect(result?.args).to.be.deep.equal([17]);
+    expect(result?.reason).to.be.equal('Panic due to OVERFLOW(17)');
+  });
+
+  it('should decode a custom error of a registered ABI', async () => {
+    registerErrorAbi([
+      'error InsufficientAllowance(uint256 allowance, uint256 needed)',
+    ]);
+    const iface = new ethers.Interface([
+      'error InsufficientAllowance(uint256 allowance, uint256 needed)',
+    ]);
+    const data = iface.encodeErrorResult('InsufficientAllowance', [1, 2]);
+    const result = decodeRevertData(data);
+    expect(result).to.be.deep.equal({
+      name: 'InsufficientAllowance',
+      signature: 'InsufficientAllowance(uint256,uint256)',
+      args: [1n, 2n],
+      reason: null,
+    });
+  });
+
+  it('should not decode the custom errors once the registry is cleared', async () => {
+    registerErrorAbi(['error Unauthorized(address caller)']);
+    registerErrorAbi(['error Unauthorized(address caller)']);
+    const iface = new ethers.Interface(['error Unauthorized(address caller)']);
+    const data = iface.encodeErrorResult('Unauthorized', [ethers.ZeroAddress]);
+    expect(decodeRevertData(data)?.name).to.be.equal('Unauthorized');
+
+    clearErrorAbis();
+    expect(decodeRevertData(data)).to.be.null;
+  });
+
+  it('should return `null` for an unknown error', async () => {
+    expect(decodeRevertData('0x12345678')).to.be.null;
+    expect(decodeRevertData('0x')).to.be.null;
+  });
+});
+
+describe('toRpcError()', () => {
+  const cases: Array<[string, {code: number; message: string}, any]> = [
+    [
+      'a rate limit',
+      {code: -32005, message: 'Limit exceeded'},
+      RateLimitedError,
+    ],
+    [
+      'a paymaster validation failure',
+      {
+        code: 3,
+        message:
+          'failed to validate the transaction. reason: Validation revert: Paymaster validation error: Wrong token',
+      },
+      PaymasterValidationError,
+    ],
+    [
+      'an account validation failure',
+      {
+        code: 3,
+        message:
+          'failed to validate the transaction. reason: Validation revert: Account validation error: Invalid signature',
+      },
+      AccountValidationError,
+    ],
+    [
+      'a used nonce',
+      {code: -32000, message: 'nonce too low. allowed nonce range: 5 - 50'},
+      NonceTooLowError,
+    ],
+    [
+      'a balance too low',
+      {code: -32000, message: 'insufficient funds for gas + value'},
+      InsufficientFundsError,
+    ],
+    [
+      'a revert',
+      {code: 3, message: 'execution reverted'},
+      ExecutionRevertedError,
+    ],
+  ];
+
+  for (const [name, error, type] of cases) {
+    it(`should classify ${name}`, async () => {
+      const result = toRpcError(null, error);
+      expect(result).to.be.instanceOf(type);
+      expect(result.code).to.be.equal(error.code);
+      expect(result.message).to.be.equal(error.message);
+    });
+  }
+
+  it('should return the base error for an unknown error', async () => {
+    const result = toRpcError(null, {
+      code: -32601,
+      message: 'Method not found',
+    });
+    expect(result.constructor).to.be.equal(RpcError);
+  });
+});
@@ -0,0 +1,299 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {
+  BitcoinCoreProvider,
+  InMemoryBitcoinProvider,
+  ordUtxoFilter,
+  types,
+} from '../../src';
+import BitcoinClient from 'bitcoin-core';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+
+const {expect} = chai;
+
+function clientWith(
+  command: (method: string, ...params: any[]) => any
+): BitcoinClient {
+  const client = new BitcoinClient();
+  client.command = async (method: string, ...params: any[]) =>
+    command(method, ...params);
+  return client;
+}
+
+describe('BitcoinCoreProvider', () => {
+  describe('#listUnspent()', () => {
+    it('should request the outputs of the addresses with the given confirmations', async () => {
+      let params: any[] = [];
+      const provider = new BitcoinCoreProvider(
+        clientWith((method, ...rest) => {
+          expect(method).to.be.equal('listunspent');
+          params = rest;
+          return [];
+        })
+      );
+
+      await provider.listUnspent(
+        ['bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'],
+        3,
+        10
+      );
+      expect(params).to.be.deep.equal([
+        3,
+        10,
+        ['bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'],
+      ]);
+    });
+  });
+
+  describe('#estimateFeeRate()', () => {
+    it('should convert the fee rate from BTC/kvB to satoshi/vB', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(() => ({feerate: 0.00012345, blocks: 2}))
+      );
+      const result = await provider.estimateFeeRate(2);
+      expect(result).to.be.equal(13n);
+    });
+
+    it('should return `null` when the node has no estimate', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(() => ({errors: ['Insufficient data or no feerate found']}))
+      );
+      const result = await provider.estimateFeeRate(2);
+      expect(result).to.be.null;
+    });
+  });
+
+  describe('#getTxStatus()', () => {
+    it('should return `null` for an unknown transaction', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(() => {
+          throw Object.assign(new Error('No such mempool transaction'), {
+            code: -5,
+          });
+        })
+      );
+      const result = await provider.getTxStatus('00'.repeat(32));
+      expect(result).to.be.null;
+    });
+
+    it('should rethrow the other errors of the node', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(() => {
+          throw Object.assign(new Error('Work queue depth exceeded'), {
+            code: -32603,
+          });
+        })
+      );
+      try {
+        await provider.getTxStatus('00'.repeat(32));
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal('Work queue depth exceeded');
+      }
+    });
+
+    it('should return the status of a mempool transaction', async () => {
+      const provider = new BitcoinCoreProvider(clientWith(() => ({})));
+      const result = await provider.getTxStatus('00'.repeat(32));
+      expect(result).to.be.deep.equal({confirmed: false, confirmations: 0});
+    });
+
+    it('should return the status of a confirmed transaction', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(method =>
+          method === 'getrawtransaction'
+            ? {blockhash: '11'.repeat(32), confirmations: 3}
+            : {height: 120, confirmations: 3}
+        )
+      );
+      const result = await provider.getTxStatus('00'.repeat(32));
+      expect(result).to.be.deep.equal({
+        confirmed: true,
+        confirmations: 3,
+        blockHash: '11'.repeat(32),
+        blockHeight: 120,
+      });
+    });
+  });
+
+  describe('#listReceivedTransactions()', () => {
+    it('should return the transactions received by the address, including the watch-only ones', async () => {
+      let params: any[] = [];
+      const provider = new BitcoinCoreProvider(
+        clientWith((method, ...rest) => {
+          expect(method).to.be.equal('listreceivedbyaddress');
+          params = rest;
+          return [{address: rest[3], txids: ['00'.repeat(32)]}];
+        })
+      );
+
+      const result = await provider.listReceivedTransactions(
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'
+      );
+      expect(result).to.be.deep.equal(['00'.repeat(32)]);
+      expect(params).to.be.deep.equal([
+        0,
+        true,
+        true,
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+      ]);
+    });
+  });
+
+  describe('#getNetworkName()', () => {
+    it('should map the chain of the node to the network name', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(method => {
+          expect(method).to.be.equal('getblockchaininfo');
+          return {chain: 'main'};
+        })
+      );
+      const result = await provider.getNetworkName();
+      expect(result).to.be.equal('mainnet');
+    });
+
+    it('should throw an error for an unsupported chain', async () => {
+      const provider = new BitcoinCoreProvider(
+        clientWith(() => ({chain: 'unknown'}))
+      );
+      try {
+        await provider.getNetworkName();
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal('Unsupported chain: unknown');
+      }
+    });
+  });
+});
+
+describe('InMemoryBitcoinProvider', () => {
+  const address = 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56';
+
+  describe('#listUnspent()', () => {
+    it('should list the funded outputs with the given confirmations', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const txid = provider.fund(address, 100_000_000n, 3);
+      provider.fund(address, 50_000_000n);
+
+      const result = await provider.listUnspent([address], 2);
+      expect(result.map(utxo => [utxo.txid, utxo.amount])).to.be.deep.equal([
+        [txid, '1'],
+      ]);
+      expect(result[0].confirmations).to.be.equal(4);
+    });
+  });
+
+  describe('#listReceivedTransactions()', () => {
+    it('should return the funding transactions of the address', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const txid = provider.fund(address, 100_000_000n);
+      provider.fund(
+        'bcrt1pfceu92l2rz44acv6y37etczl73prv09esdp0ec0srttltf5yvj3qwtuky6',
+        1_000n
+      );
+
+      const result = await provider.listReceivedTransactions(address);
+      expect(result).to.be.deep.equal([txid]);
+    });
+  });
+
+  describe('#getTxStatus()', () => {
+    it('should return the status of a mined transaction', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const txid = provider.fund(address, 100_000_000n);
+      provider.mine();
+
+      const result = await provider.getTxStatus(txid);
+      expect(result?.confirmed).to.be.true;
+      expect(result?.confirmations).to.be.equal(2);
+      expect(result?.blockHeight).to.be.equal(0);
+      expect(result?.blockHash).to.have.lengthOf(64);
+    });
+
+    it('should return `null` for an unknown transaction', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const result = await provider.getTxStatus('00'.repeat(32));
+      expect(result).to.be.null;
+    });
+  });
+
+  describe('#getRawTransaction()', () => {
+    it('should throw an error for an unknown transaction', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      try {
+        await provider.getRawTransaction('00'.repeat(32));
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'No such mempool or blockchain transaction'
+        );
+      }
+    });
+  });
+
+  describe('#estimateFeeRate()', () => {
+    it('should return the fee rate of the closest target', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.feeRates = {2: 20n, 6: 10n};
+      expect(await provider.estimateFeeRate(5)).to.be.equal(20n);
+      expect(await provider.estimateFeeRate(1)).to.be.null;
+    });
+  });
+});
+
+describe('ordUtxoFilter()', () => {
+  const outputs: Record<string, object> = {
+    [`${'00'.repeat(32)}:0`]: {indexed: true, inscriptions: [], runes: {}},
+    [`${'00'.repeat(32)}:1`]: {
+      indexed: true,
+      inscriptions: [`${'00'.repeat(32)}i0`],
+      runes: {},
+    },
+    [`${'00'.repeat(32)}:2`]: {
+      indexed: true,
+      inscriptions: [],
+      runes: {'UNCOMMON•GOODS': {amount: 1}},
+    },
+    [`${'00'.repeat(32)}:3`]: {indexed: false, inscriptions: [], runes: {}},
+  };
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const outpoint = req.url!.replace('/output/', '');
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(outputs[outpoint]));
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const utxo = (vout: number) =>
+    ({txid: '00'.repeat(32), vout}) as types.UnspentTransactionOutput;
+
+  it('should allow the output without inscriptions and runes', async () => {
+    const result = await ordUtxoFilter(url)(utxo(0));
+    expect(result).to.be.true;
+  });
+
+  it('should skip the output carrying an inscription', async () => {
+    const result = await ordUtxoFilter(url)(utxo(1));
+    expect(result).to.be.false;
+  });
+
+  it('should skip the output carrying runes', async () => {
+    const result = await ordUtxoFilter(url)(utxo(2));
+    expect(result).to.be.false;
+  });
+
+  it('should skip the output which is not indexed', async () => {
+    const result = await ordUtxoFilter(url)(utxo(3));
+    expect(result).to.be.false;
+  });
+});
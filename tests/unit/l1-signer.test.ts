@@ -0,0 +1,136 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {BitcoinCoreL1Signer, PrivateKeyL1Signer, utils} from '../../src';
+import BitcoinClient from 'bitcoin-core';
+import * as btc from '@scure/btc-signer';
+import {base64, hex} from '@scure/base';
+
+const {expect} = chai;
+
+const PRIVATE_KEY = 'KyZpNDKnfs94vbrwhJneDi77V6jF64PWPF8x5cdJb8ifgg2DUc9d';
+const PUBLIC_KEY =
+  '0330d54fd0dd420a6e5f8d3624f5f3482cae350f79d5f0753bf5beef9c2d91af3c';
+
+function clientWith(
+  command: (method: string, ...params: any[]) => any
+): BitcoinClient {
+  return {
+    command: async (method: string, ...params: any[]) =>
+      command(method, ...params),
+  } as unknown as BitcoinClient;
+}
+
+function unsignedTx(inputs: number): btc.Transaction {
+  const publicKey = hex.decode(PUBLIC_KEY);
+  const tx = new btc.Transaction();
+  for (let i = 0; i < inputs; i++) {
+    tx.addInput({
+      txid: new Uint8Array(32).fill(i + 1),
+      index: 0,
+      witnessUtxo: {script: btc.p2wpkh(publicKey).script, amount: 10_000n},
+    });
+  }
+  tx.addOutputAddress(btc.p2wpkh(publicKey).address!, 5_000n);
+  return tx;
+}
+
+describe('PrivateKeyL1Signer', () => {
+  describe('#getPublicKey()', () => {
+    it('should return the compressed public key', async () => {
+      const signer = new PrivateKeyL1Signer(PRIVATE_KEY);
+      const result = await signer.getPublicKey();
+      expect(hex.encode(result)).to.be.equal(PUBLIC_KEY);
+    });
+
+    it('should throw an error when the private key belongs to a different network', async () => {
+      const signer = new PrivateKeyL1Signer(PRIVATE_KEY, utils.REGTEST_NETWORK);
+      try {
+        await signer.getPublicKey();
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Signing key does not belong to the L1 network'
+        );
+      }
+    });
+  });
+
+  describe('#signInputs()', () => {
+    it('should sign only the given inputs', async () => {
+      const signer = new PrivateKeyL1Signer(PRIVATE_KEY);
+      const tx = unsignedTx(2);
+      await signer.signInputs(tx, [1]);
+      expect(tx.getInput(0).partialSig).to.be.undefined;
+      expect(tx.getInput(1).partialSig).to.have.lengthOf(1);
+    });
+  });
+});
+
+describe('BitcoinCoreL1Signer', () => {
+  describe('#getPublicKey()', () => {
+    it('should return the public key of the address', async () => {
+      const signer = new BitcoinCoreL1Signer(
+        clientWith((method, address) => {
+          expect(method).to.be.equal('getaddressinfo');
+          expect(address).to.be.equal(
+            'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+          );
+          return {pubkey: PUBLIC_KEY};
+        }),
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+      const result = await signer.getPublicKey();
+      expect(hex.encode(result)).to.be.equal(PUBLIC_KEY);
+    });
+
+    it('should return the public key from the descriptor of the `tr` address', async () => {
+      const signer = new BitcoinCoreL1Signer(
+        clientWith(() => ({
+          desc: `tr([73c5da0a/86h/0h/0h/0/0]${PUBLIC_KEY.slice(2)})#4rqwx8ah`,
+        })),
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+      );
+      const result = await signer.getPublicKey();
+      expect(hex.encode(result.slice(1))).to.be.equal(PUBLIC_KEY.slice(2));
+    });
+  });
+
+  describe('#signInputs()', () => {
+    it('should copy the signatures of the given inputs from the processed PSBT', async () => {
+      const signer = new BitcoinCoreL1Signer(
+        clientWith((method, psbt, sign, sighashType, bip32derivs, finalize) => {
+          expect(method).to.be.equal('walletprocesspsbt');
+          expect([sign, sighashType, bip32derivs, finalize]).to.be.deep.equal([
+            true,
+            'DEFAULT',
+            true,
+            false,
+          ]);
+          const tx = btc.Transaction.fromPSBT(base64.decode(psbt));
+          tx.sign(btc.WIF().decode(PRIVATE_KEY));
+          return {psbt: base64.encode(tx.toPSBT()), complete: false};
+        }),
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+      const tx = unsignedTx(2);
+      await signer.signInputs(tx, [0]);
+      expect(tx.getInput(0).partialSig).to.have.lengthOf(1);
+      expect(tx.getInput(1).partialSig).to.be.undefined;
+    });
+
+    it('should throw an error when the input has not been signed', async () => {
+      const signer = new BitcoinCoreL1Signer(
+        clientWith((method, psbt) => ({psbt, complete: false})),
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+      try {
+        await signer.signInputs(unsignedTx(1), [0]);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Input 0 has not been signed by the L1 node'
+        );
+      }
+    });
+  });
+});
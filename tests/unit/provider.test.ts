@@ -0,0 +1,767 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {
+  BrowserProvider,
+  ExecutionRevertedError,
+  FallbackProvider,
+  LruCache,
+  Provider,
+  RpcError,
+  WebSocketProvider,
+  types,
+} from '../../src';
+import {ethers} from 'ethers';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {PRIVATE_KEY1} from '../utils';
+
+const {expect} = chai;
+
+const HASH = `0x${'11'.repeat(32)}`;
+
+/** A WebSocket talking to an in-process node which answers the requests and pushes the subscription events. */
+class FakeWebSocket implements ethers.WebSocketLike {
+  /** The hashes of the transactions which the node knows. */
+  static transactions = new Set<string>();
+
+  onopen: null | ((...args: Array<any>) => any) = null;
+  onmessage: null | ((...args: Array<any>) => any) = null;
+  onerror: null | ((...args: Array<any>) => any) = null;
+  onclose: null | ((...args: Array<any>) => any) = null;
+  readyState = 0;
+  requests: any[] = [];
+  subscriptions = new Map<string, string>();
+
+  constructor(readonly answer = true) {
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+    });
+  }
+
+  send(message: string): void {
+    const {id, method, params} = JSON.parse(message);
+    this.requests.push({method, params});
+    if (!this.answer) return;
+    let result: any = null;
+    if (method === 'eth_chainId') result = '0x10f';
+    if (method === 'eth_blockNumber') result = '0x7';
+    if (method === 'eth_getTransactionByHash')
+      result = FakeWebSocket.transactions.has(params[0]) ? {} : null;
+    if (method === 'eth_subscribe') {
+      result = `0x${this.subscriptions.size + 1}`;
+      this.subscriptions.set(params[0], result);
+    }
+    setTimeout(
+      () =>
+        this.onmessage?.({data: JSON.stringify({id, jsonrpc: '2.0', result})})
+    );
+  }
+
+  push(type: string, result: any): void {
+    const subscription = this.subscriptions.get(type);
+    this.onmessage?.({
+      data: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'eth_subscription',
+        params: {subscription, result},
+      }),
+    });
+  }
+
+  close(): void {
+    this.readyState = 3;
+    setTimeout(() => this.onclose?.());
+  }
+}
+
+function header(number: number): object {
+  return {
+    hash: HASH,
+    parentHash: HASH,
+    sha3Uncles: HASH,
+    miner: ethers.ZeroAddress,
+    stateRoot: HASH,
+    transactionsRoot: HASH,
+    receiptsRoot: HASH,
+    number: ethers.toQuantity(number),
+    l1BatchNumber: '0x3',
+    gasUsed: '0x0',
+    gasLimit: '0x4000000000000',
+    baseFeePerGas: '0x2b275d0',
+    extraData: '0x',
+    logsBloom: `0x${'00'.repeat(256)}`,
+    timestamp: '0x6700000',
+    l1BatchTimestamp: '0x6700000',
+    difficulty: '0x0',
+    mixHash: HASH,
+    nonce: '0x0000000000000000',
+  };
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) await new Promise(resolve => setTimeout(resolve, 5));
+}
+
+describe('Provider', () => {
+  let server: http.Server;
+  let url: string;
+  let bodies: any[];
+  let respond: (body: any, res: http.ServerResponse) => void;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        bodies.push(JSON.parse(body));
+        res.setHeader('content-type', 'application/json');
+        respond(JSON.parse(body), res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    bodies = [];
+    respond = (body, res) => {
+      const answer = ({id}: any) => ({id, jsonrpc: '2.0', result: {number: 1}});
+      res.end(
+        JSON.stringify(Array.isArray(body) ? body.map(answer) : answer(body))
+      );
+    };
+  });
+
+  // The static network saves the `eth_chainId` requests.
+  const network = ethers.Network.from(270);
+  const options = {staticNetwork: network};
+
+  describe('#batch()', () => {
+    it('should send the requests of the scope in a single batch', async () => {
+      const provider = new Provider(url, network, {
+        ...options,
+        batchMaxCount: 10,
+      });
+
+      const result = await provider.batch(async p =>
+        Promise.all(
+          Array.from({length: 25}, (_, i) => p.getBlockDetails(i + 1))
+        )
+      );
+      expect(result).to.have.lengthOf(25);
+      expect(bodies).to.have.lengthOf(1);
+      expect(bodies[0]).to.have.lengthOf(25);
+      provider.destroy();
+    });
+
+    it('should split the requests outside of a scope by `batchMaxCount`', async () => {
+      const provider = new Provider(url, network, {
+        ...options,
+        batchMaxCount: 10,
+      });
+
+      await Promise.all(
+        Array.from({length: 25}, (_, i) => provider.getBlockDetails(i + 1))
+      );
+      expect(bodies.map(body => body.length)).to.be.deep.equal([10, 10, 5]);
+      provider.destroy();
+    });
+  });
+
+  describe('#send()', () => {
+    const details = (status: string) => ({
+      number: 1,
+      status,
+      executeTxHash: status === 'verified' ? `0x${'22'.repeat(32)}` : null,
+    });
+
+    it('should cache the details of an executed batch', async () => {
+      respond = (body, res) =>
+        res.end(JSON.stringify({id: body.id, result: details('verified')}));
+      const provider = new Provider(url, network, options);
+      provider.cache = new LruCache();
+
+      await provider.getL1BatchDetails(1);
+      const result = await provider.getL1BatchDetails(1);
+      expect(result.status).to.be.equal('verified');
+      expect(bodies).to.have.lengthOf(1);
+      provider.destroy();
+    });
+
+    it('should not cache the details of a batch which is not executed', async () => {
+      respond = (body, res) =>
+        res.end(JSON.stringify({id: body.id, result: details('sealed')}));
+      const provider = new Provider(url, network, options);
+      provider.cache = new LruCache();
+
+      await provider.getL1BatchDetails(1);
+      await provider.getL1BatchDetails(1);
+      expect(bodies).to.have.lengthOf(2);
+      provider.destroy();
+    });
+
+    it('should cache the receipt of a finalized transaction only', async () => {
+      const receipt = (blockNumber: number) => ({
+        blockNumber: ethers.toQuantity(blockNumber),
+      });
+      respond = (body, res) =>
+        res.end(
+          JSON.stringify({
+            id: body.id,
+            result:
+              body.method === 'eth_getBlockByNumber'
+                ? {number: '0x5'}
+                : receipt(body.params[0] === HASH ? 5 : 6),
+          })
+        );
+      const provider = new Provider(url, network, options);
+      provider.cache = new LruCache();
+
+      for (const hash of [HASH, HASH, `0x${'33'.repeat(32)}`])
+        await provider.send('eth_getTransactionReceipt', [hash]);
+      await provider.send('eth_getTransactionReceipt', [
+        `0x${'33'.repeat(32)}`,
+      ]);
+      expect(
+        bodies.filter(body => body.method === 'eth_getTransactionReceipt')
+      ).to.have.lengthOf(3);
+      // The finalized block is fetched once per polling interval.
+      expect(
+        bodies.filter(body => body.method === 'eth_getBlockByNumber')
+      ).to.have.lengthOf(1);
+      provider.destroy();
+    });
+  });
+
+  describe('#_send()', () => {
+    it('should report the error of a batch entry to its request only', async () => {
+      respond = (body, res) =>
+        res.end(
+          JSON.stringify(
+            body.map(({id, params}: any) =>
+              params[0] === 2
+                ? {id, jsonrpc: '2.0', error: {code: -32602, message: 'Bad'}}
+                : {id, jsonrpc: '2.0', result: {number: params[0]}}
+            )
+          )
+        );
+      const provider = new Provider(url, network, options);
+
+      const result = await Promise.allSettled([
+        provider.getBlockDetails(1),
+        provider.getBlockDetails(2),
+      ]);
+      expect(result[0].status).to.be.equal('fulfilled');
+      expect(result[1].status).to.be.equal('rejected');
+      expect((result[1] as PromiseRejectedResult).reason.message).to.include(
+        'Bad'
+      );
+      provider.destroy();
+    });
+
+    it('should report the error of the whole batch to each request', async () => {
+      respond = (body, res) => {
+        res.statusCode = 413;
+        res.end(
+          JSON.stringify({
+            id: null,
+            jsonrpc: '2.0',
+            error: {code: -32600, message: 'Batch is too large'},
+          })
+        );
+      };
+      const provider = new Provider(url, network, options);
+
+      const result = await Promise.allSettled([
+        provider.getBlockDetails(1),
+        provider.getBlockDetails(2),
+      ]);
+      for (const entry of result) {
+        expect(entry.status).to.be.equal('rejected');
+        expect((entry as PromiseRejectedResult).reason.message).to.include(
+          'Batch is too large'
+        );
+      }
+      provider.destroy();
+    });
+  });
+
+  describe('#getRpcError()', () => {
+    it('should throw the revert with the decoded reason', async () => {
+      const data = ethers.concat([
+        '0x08c379a0',
+        ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Not owner']),
+      ]);
+      respond = (body, res) =>
+        res.end(
+          JSON.stringify({
+            id: body.id,
+            jsonrpc: '2.0',
+            error: {code: 3, message: 'execution reverted: Not owner', data},
+          })
+        );
+      const provider = new Provider(url, network, options);
+
+      try {
+        await provider.send('eth_call', [{to: ethers.ZeroAddress}, 'latest']);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(ExecutionRevertedError);
+        expect((e as ExecutionRevertedError).reason).to.be.equal('Not owner');
+        expect((e as ExecutionRevertedError).payload?.method).to.be.equal(
+          'eth_call'
+        );
+      }
+      provider.destroy();
+    });
+  });
+});
+
+describe('BrowserProvider', () => {
+  describe('#getRpcError()', () => {
+    it('should classify the error and mark the rejection by the user', async () => {
+      const provider = new BrowserProvider(
+        {
+          request: async () => {
+            throw {code: 4001, message: 'User rejected the request.'};
+          },
+        },
+        ethers.Network.from(270)
+      );
+
+      try {
+        await provider.send('eth_requestAccounts', []);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(RpcError);
+        expect((e as RpcError).code).to.be.equal(4001);
+        expect((e as RpcError).message).to.be.equal(
+          'ethers-user-denied: User rejected the request.'
+        );
+      }
+      provider.destroy();
+    });
+  });
+});
+
+describe('WebSocketProvider', () => {
+  let sockets: FakeWebSocket[];
+  let provider: WebSocketProvider;
+
+  const connect =
+    (...answers: boolean[]) =>
+    () => {
+      const websocket = new FakeWebSocket(answers[sockets.length] ?? true);
+      sockets.push(websocket);
+      return websocket;
+    };
+
+  beforeEach(() => {
+    sockets = [];
+  });
+
+  afterEach(() => {
+    provider.destroy();
+  });
+
+  describe('#on()', () => {
+    it('should emit the block number and the formatted header of a `newHeads` subscription', async () => {
+      provider = new WebSocketProvider(connect(), 271);
+      const events: [number, types.Block][] = [];
+      await provider.on('block', (blockNumber, block) =>
+        events.push([blockNumber, block])
+      );
+      await until(() => sockets[0].subscriptions.has('newHeads'));
+
+      sockets[0].push('newHeads', header(8));
+      await until(() => events.length === 1);
+      expect(events[0][0]).to.be.equal(8);
+      expect(events[0][1]).to.be.instanceOf(types.Block);
+      expect(events[0][1].l1BatchNumber).to.be.equal(3);
+      expect(events[0][1].transactions).to.be.deep.equal([]);
+    });
+
+    it('should emit the formatted log of a `logs` subscription', async () => {
+      provider = new WebSocketProvider(connect(), 271);
+      const logs: types.Log[] = [];
+      await provider.on({address: ethers.ZeroAddress}, log => logs.push(log));
+      await until(() => sockets[0].subscriptions.has('logs'));
+
+      sockets[0].push('logs', {
+        address: ethers.ZeroAddress,
+        topics: [HASH],
+        data: '0x',
+        blockHash: HASH,
+        blockNumber: '0x8',
+        transactionHash: HASH,
+        transactionIndex: '0x0',
+        logIndex: '0x0',
+        l1BatchNumber: '0x3',
+        removed: false,
+      });
+      await until(() => logs.length === 1);
+      expect(logs[0]).to.be.instanceOf(types.Log);
+      expect(logs[0].l1BatchNumber).to.be.equal(3);
+    });
+
+    it('should emit the hash of a pending transaction', async () => {
+      provider = new WebSocketProvider(connect(), 271);
+      const hashes: string[] = [];
+      await provider.on('pending', hash => hashes.push(hash));
+      await until(() => sockets[0].subscriptions.has('newPendingTransactions'));
+
+      sockets[0].push('newPendingTransactions', HASH);
+      await until(() => hashes.length === 1);
+      expect(hashes).to.be.deep.equal([HASH]);
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should restore the subscriptions after reconnecting', async () => {
+      provider = new WebSocketProvider(connect(), 271, {reconnectDelay: 1});
+      const blocks: number[] = [];
+      await provider.on('block', blockNumber => blocks.push(blockNumber));
+      await until(() => sockets[0].subscriptions.has('newHeads'));
+
+      sockets[0].close();
+      await until(() => sockets[1]?.subscriptions.has('newHeads'));
+      sockets[1].push('newHeads', header(9));
+      await until(() => blocks.length === 1);
+      expect(blocks).to.be.deep.equal([9]);
+    });
+
+    it('should resend the unanswered requests after reconnecting', async () => {
+      provider = new WebSocketProvider(connect(false), 271, {
+        reconnectDelay: 1,
+      });
+      const blockNumber = provider.getBlockNumber();
+      await until(() => sockets[0].requests.length === 1);
+
+      sockets[0].close();
+      expect(await blockNumber).to.be.equal(7);
+      expect(sockets[1].requests[0].method).to.be.equal('eth_blockNumber');
+    });
+
+    it('should not resend a transaction which reached the node before reconnecting', async () => {
+      const signedTx = await new ethers.Wallet(PRIVATE_KEY1).signTransaction({
+        to: ethers.ZeroAddress,
+        gasLimit: 21_000,
+        gasPrice: 1,
+        chainId: 271,
+      });
+      const hash = ethers.keccak256(signedTx);
+      FakeWebSocket.transactions = new Set([hash]);
+      provider = new WebSocketProvider(connect(false), 271, {
+        reconnectDelay: 1,
+      });
+      const result = provider.send('eth_sendRawTransaction', [signedTx]);
+      await until(() => sockets[0].requests.length === 1);
+
+      sockets[0].close();
+      expect(await result).to.be.equal(hash);
+      expect(
+        sockets[1].requests.map(request => request.method)
+      ).to.be.deep.equal(['eth_getTransactionByHash']);
+    });
+
+    it('should resend a transaction unknown to the node after reconnecting', async () => {
+      const signedTx = await new ethers.Wallet(PRIVATE_KEY1).signTransaction({
+        to: ethers.ZeroAddress,
+        gasLimit: 21_000,
+        gasPrice: 1,
+        chainId: 271,
+      });
+      FakeWebSocket.transactions = new Set();
+      provider = new WebSocketProvider(connect(false), 271, {
+        reconnectDelay: 1,
+      });
+      const result = provider.send('eth_sendRawTransaction', [signedTx]);
+      await until(() => sockets[0].requests.length === 1);
+
+      sockets[0].close();
+      await result;
+      expect(
+        sockets[1].requests.map(request => request.method)
+      ).to.be.deep.equal([
+        'eth_getTransactionByHash',
+        'eth_sendRawTransaction',
+      ]);
+    });
+
+    it('should fail the unanswered requests when the reconnection attempts are exhausted', async () => {
+      provider = new WebSocketProvider(connect(false), 271, {
+        maxReconnectAttempts: 0,
+      });
+      const blockNumber = provider.getBlockNumber();
+      await until(() => sockets[0].requests.length === 1);
+
+      sockets[0].close();
+      try {
+        await blockNumber;
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.contain('WebSocket connection lost');
+      }
+      expect(provider.destroyed).to.be.true;
+    });
+  });
+});
+
+describe('FallbackProvider', () => {
+  let servers: http.Server[];
+  let provider: FallbackProvider;
+
+  /** Starts a node which answers the JSON-RPC requests with `handle`, and returns its URL. */
+  async function node(
+    handle: (
+      method: string,
+      params: any[],
+      res: http.ServerResponse
+    ) => any | undefined
+  ): Promise<string> {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const {id, method, params} = JSON.parse(body);
+        const result =
+          method === 'eth_chainId'
+            ? {result: '0x10e'}
+            : handle(method, params, res);
+        if (result === undefined) return;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({id, jsonrpc: '2.0', ...result}));
+      });
+    });
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function deadNode(): Promise<string> {
+    const url = await node(() => ({}));
+    await new Promise(resolve => servers.pop()!.close(resolve));
+    return url;
+  }
+
+  const options = {healthCheckInterval: 0, retryDelay: 1};
+
+  beforeEach(() => {
+    servers = [];
+  });
+
+  afterEach(() => {
+    provider?.destroy();
+    for (const server of servers) server.close();
+  });
+
+  describe('#constructor()', () => {
+    it('should throw an error when the quorum exceeds the number of URLs', async () => {
+      try {
+        provider = new FallbackProvider(['http://127.0.0.1:3050'], 270, {
+          quorum: 2,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Quorum of 2 exceeds the number of URLs: 1'
+        );
+      }
+    });
+  });
+
+  describe('#batch()', () => {
+    it('should send the requests of the scope separately', async () => {
+      const requests: string[] = [];
+      const url = await node((method, params) => {
+        requests.push(method);
+        return {result: {number: params[0]}};
+      });
+      provider = new FallbackProvider([url], 270, options);
+
+      const result = await provider.batch(async p =>
+        Promise.all([1, 2, 3].map(number => p.getBlockDetails(number)))
+      );
+      expect(result.map(details => details.number)).to.be.deep.equal([1, 2, 3]);
+      expect(requests).to.be.deep.equal(Array(3).fill('zks_getBlockDetails'));
+    });
+  });
+
+  describe('#send()', () => {
+    it('should fail over to the next endpoint on a transport error', async () => {
+      const url = await node(method =>
+        method === 'zks_L1BatchNumber' ? {result: '0x5'} : {}
+      );
+      provider = new FallbackProvider([await deadNode(), url], 270, options);
+
+      const result = await provider.getL1BatchNumber();
+      expect(result).to.be.equal(5);
+    });
+
+    it('should retry a rate limited request on the next endpoint', async () => {
+      let limited = 0;
+      const urls = [
+        await node((method, params, res) => {
+          limited++;
+          res.statusCode = 429;
+          res.end();
+        }),
+        await node(() => ({result: '0x7'})),
+      ];
+      provider = new FallbackProvider(urls, 270, options);
+
+      const results = [
+        await provider.send('eth_blockNumber', []),
+        await provider.send('eth_blockNumber', []),
+      ];
+      expect(results).to.be.deep.equal(['0x7', '0x7']);
+      expect(limited).to.be.equal(1);
+    });
+
+    it('should return the response confirmed by the quorum', async () => {
+      const urls = [
+        await node(() => ({result: '0x1'})),
+        await node(() => ({result: '0x2'})),
+        await node(() => ({result: '0x2'})),
+      ];
+      provider = new FallbackProvider(urls, 270, {...options, quorum: 2});
+
+      const result = await provider.send('eth_getBalance', [
+        ethers.ZeroAddress,
+        'latest',
+      ]);
+      expect(result).to.be.equal('0x2');
+    });
+
+    it('should throw an error when the quorum is not reached', async () => {
+      const urls = [
+        await node(() => ({result: '0x1'})),
+        await node(() => ({result: '0x2'})),
+      ];
+      provider = new FallbackProvider(urls, 270, {...options, quorum: 2});
+      try {
+        await provider.send('eth_getBalance', [ethers.ZeroAddress, 'latest']);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.include(
+          'Endpoints did not reach the quorum of 2 for eth_getBalance'
+        );
+      }
+    });
+
+    it('should pin the latest block when the endpoints are one block apart', async () => {
+      const requested: any[] = [];
+      const handle = (latest: number) => (method: string, params: any[]) => {
+        if (method === 'eth_getBlockByNumber')
+          return {result: {number: ethers.toQuantity(latest)}};
+        requested.push(params[1]);
+        return {
+          result: params[1] === 'latest' ? ethers.toQuantity(latest) : '0x5',
+        };
+      };
+      const urls = [await node(handle(16)), await node(handle(17))];
+      provider = new FallbackProvider(urls, 270, {...options, quorum: 2});
+
+      const result = await provider.send('eth_getBalance', [
+        ethers.ZeroAddress,
+        'latest',
+      ]);
+      expect(result).to.be.equal('0x5');
+      expect(requested).to.be.deep.equal(['0x10', '0x10']);
+    });
+
+    it('should bind the filter to the endpoint which created it', async () => {
+      const filters: string[][] = [[], [], []];
+      const handle = (index: number) => (method: string, params: any[]) => {
+        if (method === 'eth_newBlockFilter') return {result: `0x0${index}`};
+        filters[index].push(params[0]);
+        return {result: []};
+      };
+      const urls = [
+        await node(handle(0)),
+        await node(handle(1)),
+        await node(handle(2)),
+      ];
+      provider = new FallbackProvider(urls, 270, options);
+
+      const id = await provider.newBlockFilter();
+      for (let i = 0; i < 3; i++) await provider.getFilterChanges(id);
+      expect(filters[Number(id)]).to.be.deep.equal([
+        ethers.toBeHex(id),
+        ethers.toBeHex(id),
+        ethers.toBeHex(id),
+      ]);
+      expect(filters.flat()).to.have.lengthOf(3);
+    });
+  });
+
+  describe('#broadcastTransaction()', () => {
+    let signedTx: string;
+    let hash: string;
+
+    before(async () => {
+      signedTx = await new ethers.Wallet(PRIVATE_KEY1).signTransaction({
+        to: ethers.ZeroAddress,
+        value: 1,
+        gasLimit: 21_000,
+        gasPrice: 1,
+        nonce: 0,
+        chainId: 270,
+      });
+      hash = ethers.keccak256(signedTx);
+    });
+
+    it('should not resend a transaction known by the endpoints', async () => {
+      let sent = 0;
+      const handle = (method: string, params: any[], res: any) => {
+        if (method !== 'eth_sendRawTransaction')
+          return {result: method === 'eth_getTransactionByHash' ? {} : null};
+        sent++;
+        res.destroy();
+        return undefined;
+      };
+      const urls = [await node(handle), await node(handle)];
+      provider = new FallbackProvider(urls, 270, options);
+
+      const result = await provider.send('eth_sendRawTransaction', [signedTx]);
+      expect(result).to.be.equal(hash);
+      expect(sent).to.be.equal(1);
+    });
+
+    it('should resend a transaction unknown to the endpoints', async () => {
+      const urls = [
+        await deadNode(),
+        await node(method =>
+          method === 'eth_sendRawTransaction' ? {result: hash} : {result: null}
+        ),
+      ];
+      provider = new FallbackProvider(urls, 270, options);
+
+      const result = await provider.send('eth_sendRawTransaction', [signedTx]);
+      expect(result).to.be.equal(hash);
+    });
+  });
+
+  describe('#checkHealth()', () => {
+    it('should mark the lagging and unreachable endpoints as unhealthy', async () => {
+      const urls = [
+        await node(() => ({result: '0x64'})),
+        await node(() => ({result: '0x50'})),
+        await deadNode(),
+      ];
+      provider = new FallbackProvider(urls, 270, options);
+
+      const result = await provider.checkHealth();
+      expect(result).to.be.deep.equal([
+        {url: urls[0], healthy: true, blockNumber: 100},
+        {url: urls[1], healthy: false, blockNumber: 80},
+        {url: urls[2], healthy: false, blockNumber: null},
+      ]);
+    });
+  });
+});
@@ -1,8 +1,18 @@
 import {expect} from 'chai';
-import {types, utils} from '../../src';
+import {
+  InMemoryBitcoinProvider,
+  InvalidL1AddressError,
+  types,
+  utils,
+} from '../../src';
 import {ethers} from 'ethers';
+import * as btc from '@scure/btc-signer';
+import {hex} from '@scure/base';
 import {ADDRESS1, ADDRESS2, APPROVAL_TOKEN, PAYMASTER} from '../utils';
 
+const GENESIS_HEADER =
+  '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c';
+
 describe('utils', () => {
   describe('#getHashedL2ToL1Msg()', () => {
     it('should return a hashed L2 to L1 message', async () => {
@@ -329,4 +339,358 @@ describe('utils', () => {
       expect(result).to.be.equal(hash);
     });
   });
+
+  describe('#isBtcNetworkEq()', () => {
+    it('should return `true` for the networks with the same prefixes', async () => {
+      const result = utils.isBtcNetworkEq(
+        utils.BTC_NETWORKS.signet,
+        utils.BTC_NETWORKS.testnet4
+      );
+      expect(result).to.be.true;
+    });
+
+    it('should return `false` for the networks with different prefixes', async () => {
+      const result = utils.isBtcNetworkEq(
+        utils.BTC_NETWORKS.testnet,
+        utils.REGTEST_NETWORK
+      );
+      expect(result).to.be.false;
+    });
+  });
+
+  describe('#detectBtcNetwork()', () => {
+    it('should return the mainnet configuration', async () => {
+      const result = utils.detectBtcNetwork(
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+      expect(result).to.be.deep.equal(utils.BTC_NETWORKS.mainnet);
+    });
+
+    it('should return the regtest configuration', async () => {
+      const result = utils.detectBtcNetwork(
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'
+      );
+      expect(result).to.be.deep.equal(utils.REGTEST_NETWORK);
+    });
+
+    it('should return `undefined` for an invalid address', async () => {
+      const result = utils.detectBtcNetwork('invalid');
+      expect(result).to.be.undefined;
+    });
+  });
+
+  describe('#checkBtcAddress()', () => {
+    const rejectionOf = (address: string) => {
+      try {
+        utils.checkBtcAddress(address, utils.REGTEST_NETWORK);
+      } catch (e) {
+        return e as InvalidL1AddressError;
+      }
+      return undefined;
+    };
+
+    it('should accept the address of the L1 network', async () => {
+      const result = rejectionOf(
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'
+      );
+      expect(result).to.be.undefined;
+    });
+
+    it('should reject the EVM address', async () => {
+      const result = rejectionOf('0x36615Cf349d7F6344891B1e7CA7C72883F5dc049');
+      expect(result).to.be.instanceOf(InvalidL1AddressError);
+      expect(result?.reason).to.be.equal('malformed');
+    });
+
+    it('should reject the address of another network', async () => {
+      const result = rejectionOf('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+      expect(result).to.be.instanceOf(InvalidL1AddressError);
+      expect(result?.reason).to.be.equal('wrong-network');
+      expect(result?.message).to.be.equal(
+        'Address bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu does not belong to the L1 network'
+      );
+    });
+
+    it('should reject the address of a future witness version', async () => {
+      const result = rejectionOf(
+        'bcrt1zqurswpc8qurswpc8qurswpc8qurswpc8qurswpc8qurswpc8qurszqtpkz'
+      );
+      expect(result).to.be.instanceOf(InvalidL1AddressError);
+      expect(result?.reason).to.be.equal('unsupported-type');
+      expect(result?.message).to.be.equal(
+        'Unsupported address type: witness v2'
+      );
+    });
+  });
+
+  describe('#getDustThreshold()', () => {
+    const scriptOf = (address: string) =>
+      btc.OutScript.encode(btc.Address(utils.REGTEST_NETWORK).decode(address));
+
+    it('should return the dust threshold of the witness program', async () => {
+      const result = utils.getDustThreshold(
+        scriptOf('bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56')
+      );
+      expect(result).to.be.equal(294n);
+    });
+
+    it('should return the dust threshold of the legacy output', async () => {
+      const result = utils.getDustThreshold(
+        scriptOf('mk9HNmebx6A7XwaZvmA8woieCddKFCqwRd')
+      );
+      expect(result).to.be.equal(546n);
+    });
+  });
+
+  describe('#parseDepositTransaction()', () => {
+    const bridgeAddress =
+      'bcrt1pfceu92l2rz44acv6y37etczl73prv09esdp0ec0srttltf5yvj3qwtuky6';
+    const rawTx = (
+      outputs: (
+        | {address: string; amount: bigint}
+        | {script: Uint8Array; amount: bigint}
+      )[]
+    ) => {
+      const tx = new btc.Transaction({allowUnknownOutputs: true});
+      tx.addInput({txid: '11'.repeat(32), index: 1});
+      for (const output of outputs)
+        if ('address' in output)
+          tx.addOutputAddress(
+            output.address,
+            output.amount,
+            utils.REGTEST_NETWORK
+          );
+        else tx.addOutput(output);
+      return hex.encode(tx.unsignedTx);
+    };
+
+    it('should decode the outputs encoded by `encodeDepositOutputs()`', async () => {
+      const result = utils.parseDepositTransaction(
+        rawTx(
+          utils.encodeDepositOutputs(
+            [
+              {to: ADDRESS1, amount: 70_000_000n},
+              {to: ADDRESS2, amount: 10_000n},
+            ],
+            bridgeAddress
+          )
+        ),
+        bridgeAddress,
+        utils.REGTEST_NETWORK
+      );
+      expect(result.to).to.be.equal(ADDRESS1);
+      expect(result.amount).to.be.equal(70_000_000n);
+      expect(result.deposits).to.be.deep.equal([
+        {to: ADDRESS1, amount: 70_000_000n, vout: 0},
+        {to: ADDRESS2, amount: 10_000n, vout: 2},
+      ]);
+      expect(result.inputs).to.be.deep.equal([
+        {txid: '11'.repeat(32), vout: 1},
+      ]);
+      expect(result.errors).to.be.empty;
+    });
+
+    it('should decode the single deposit whose outputs are sorted according to BIP-69', async () => {
+      const outputs = utils.encodeDepositOutputs(
+        [{to: ADDRESS1, amount: 70_000_000n}],
+        bridgeAddress
+      );
+      const result = utils.parseDepositTransaction(
+        rawTx(outputs.reverse()),
+        bridgeAddress,
+        utils.REGTEST_NETWORK
+      );
+      expect(result.deposits).to.be.deep.equal([
+        {to: ADDRESS1, amount: 70_000_000n, vout: 1},
+      ]);
+      expect(result.errors).to.be.empty;
+    });
+
+    it('should report the bridge output without the L2 recipient', async () => {
+      const result = utils.parseDepositTransaction(
+        rawTx([{address: bridgeAddress, amount: 70_000_000n}]),
+        bridgeAddress,
+        utils.REGTEST_NETWORK
+      );
+      expect(result.to).to.be.undefined;
+      expect(result.errors).to.be.deep.equal([
+        'Output 0 is not followed by an OP_RETURN output',
+      ]);
+    });
+
+    it('should report the transaction which does not pay the bridge address', async () => {
+      const result = utils.parseDepositTransaction(
+        rawTx([
+          {
+            address: 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+            amount: 70_000_000n,
+          },
+        ]),
+        bridgeAddress,
+        utils.REGTEST_NETWORK
+      );
+      expect(result.deposits).to.be.empty;
+      expect(result.errors).to.be.deep.equal([
+        'Transaction does not pay the bridge address',
+      ]);
+    });
+  });
+
+  describe('#parseBlockHeader()', () => {
+    it('should decode the genesis block header', async () => {
+      const result = utils.parseBlockHeader(GENESIS_HEADER);
+      expect(result.hash).to.be.equal(
+        '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f'
+      );
+      expect(result.prevHash).to.be.equal('00'.repeat(32));
+      expect(result.merkleRoot).to.be.equal(
+        '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b'
+      );
+      expect(result.bits).to.be.equal(0x1d00ffff);
+    });
+  });
+
+  describe('#hasValidProofOfWork()', () => {
+    it('should accept the genesis block header', async () => {
+      const result = utils.hasValidProofOfWork(
+        utils.parseBlockHeader(GENESIS_HEADER),
+        utils.POW_LIMIT_BITS.mainnet
+      );
+      expect(result).to.be.true;
+    });
+
+    it('should reject the header whose hash does not meet the target', async () => {
+      const result = utils.hasValidProofOfWork(
+        utils.parseBlockHeader(`${GENESIS_HEADER.slice(0, -2)}00`)
+      );
+      expect(result).to.be.false;
+    });
+
+    it('should reject the target above the minimal proof-of-work of the network', async () => {
+      const header = utils.parseBlockHeader(GENESIS_HEADER);
+      const result = utils.hasValidProofOfWork(
+        {...header, bits: 0x207fffff},
+        utils.POW_LIMIT_BITS.mainnet
+      );
+      expect(result).to.be.false;
+    });
+  });
+
+  describe('#getBlockWork()', () => {
+    it('should return the work of the minimal proof-of-work of mainnet', async () => {
+      const result = utils.getBlockWork(utils.parseBlockHeader(GENESIS_HEADER));
+      expect(result).to.be.equal(0x100010001n);
+    });
+  });
+
+  describe('#verifyTxOutProof()', () => {
+    const address = 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56';
+
+    it('should verify the proof of each transaction in the block', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const txids = [1n, 2n, 3n, 4n, 5n].map(amount =>
+        provider.fund(address, amount * 100_000n, 0)
+      );
+      const [hash] = provider.mine();
+
+      for (const txid of txids) {
+        const result = utils.verifyTxOutProof(
+          await provider.getTxOutProof(txid),
+          txid
+        );
+        expect(result.hash).to.be.equal(hash);
+      }
+    });
+
+    it('should throw an error when the proof does not contain the transaction', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const [txid, other] = [1n, 2n].map(amount =>
+        provider.fund(address, amount * 100_000n, 0)
+      );
+      provider.mine();
+
+      try {
+        utils.verifyTxOutProof(await provider.getTxOutProof(other), txid);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Merkle proof does not contain transaction ${txid}`
+        );
+      }
+    });
+
+    it('should throw an error when the proof does not match the Merkle root', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const [txid] = [1n, 2n].map(amount =>
+        provider.fund(address, amount * 100_000n, 0)
+      );
+      provider.mine();
+      const proof = await provider.getTxOutProof(txid);
+      // Corrupt the first hash of the partial Merkle tree.
+      const corrupted = `${proof.slice(0, 200)}ff${proof.slice(202)}`;
+
+      try {
+        utils.verifyTxOutProof(corrupted, txid);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Merkle proof does not match the Merkle root of the block'
+        );
+      }
+    });
+  });
+
+  describe('#parseBtc()', () => {
+    it('should convert the BTC amount to satoshi', async () => {
+      const result = utils.parseBtc('0.70000001');
+      expect(result).to.be.equal(70_000_001n);
+    });
+
+    it('should throw an error when the amount has more than 8 decimals', async () => {
+      expect(() => utils.parseBtc('0.000000001')).to.throw();
+    });
+  });
+
+  describe('#formatBtc()', () => {
+    it('should convert the amount in satoshi to the BTC amount', async () => {
+      const result = utils.formatBtc(70_000_001n);
+      expect(result).to.be.equal('0.70000001');
+    });
+  });
+
+  describe('#satsToL2Units()', () => {
+    it('should convert the amount in satoshi to L2 base token units', async () => {
+      const result = utils.satsToL2Units(70_000_000n);
+      expect(result).to.be.equal(ethers.parseEther('0.7'));
+    });
+  });
+
+  describe('#l2UnitsToSats()', () => {
+    it('should convert the amount in L2 base token units to satoshi', async () => {
+      const result = utils.l2UnitsToSats(ethers.parseEther('0.7'));
+      expect(result).to.be.equal(70_000_000n);
+    });
+
+    it('should throw an error when the amount is not a whole number of satoshi', async () => {
+      expect(() => utils.l2UnitsToSats(10_000_000_001n)).to.throw(
+        'Amount 10000000001 is not a whole number of satoshi, 1 would be lost'
+      );
+    });
+
+    it('should drop the remainder with the `floor` rounding', async () => {
+      const result = utils.l2UnitsToSats(19_999_999_999n, 'floor');
+      expect(result).to.be.equal(1n);
+    });
+  });
+
+  describe('VIA_BTC_NETWORKS', () => {
+    it('should map the Via networks to the Bitcoin networks', async () => {
+      expect(utils.VIA_BTC_NETWORKS[types.Network.Mainnet]).to.be.equal(
+        'mainnet'
+      );
+      expect(utils.VIA_BTC_NETWORKS[types.Network.Localhost]).to.be.equal(
+        'regtest'
+      );
+    });
+  });
 });
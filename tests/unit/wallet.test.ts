@@ -0,0 +1,1201 @@
+import * as chai from 'chai';
+import '../custom-matchers';
+import {
+  DepositBelowMinimumError,
+  InMemoryBitcoinProvider,
+  InsufficientL1FundsError,
+  PrivateKeyL1Signer,
+  Provider,
+  types,
+  utils,
+  Wallet,
+  WalletL1,
+} from '../../src';
+import * as btc from '@scure/btc-signer';
+import {ethers} from 'ethers';
+import {hex} from '@scure/base';
+import {ADDRESS1, ADDRESS2} from '../utils';
+
+const {expect} = chai;
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// The BIP84 address of the regtest HD chain.
+const hdAddress = (chain: number, index: number) =>
+  btc.p2wpkh(
+    hex.decode(
+      ethers.HDNodeWallet.fromPhrase(
+        MNEMONIC,
+        undefined,
+        `m/84'/1'/0'/${chain}/${index}`
+      ).publicKey.slice(2)
+    ),
+    utils.REGTEST_NETWORK
+  ).address!;
+
+// The L1 provider implementing only the given methods. The missing required methods fail when called,
+// while the missing optional ones are left out, since the wallet checks whether they are supported.
+const stubProviderL1 = (
+  methods: Partial<types.BitcoinL1Provider>
+): types.BitcoinL1Provider => {
+  const unexpected = (method: string) => async (): Promise<never> => {
+    throw new Error(`Unexpected call of ${method}`);
+  };
+  return {
+    listUnspent: unexpected('listUnspent'),
+    getRawTransaction: unexpected('getRawTransaction'),
+    broadcast: unexpected('broadcast'),
+    estimateFeeRate: unexpected('estimateFeeRate'),
+    getTxStatus: unexpected('getTxStatus'),
+    ...methods,
+  };
+};
+
+// The confirmed output of the given amount in BTC, as listed by the L1 provider.
+const unspent = (
+  txid: string,
+  vout: number,
+  address: string,
+  amount: number
+): types.UnspentTransactionOutput => ({
+  txid,
+  vout,
+  address,
+  label: '',
+  scriptPubKey: '',
+  amount,
+  confirmations: 1,
+  spendable: true,
+  solvable: true,
+  parent_descs: [],
+  safe: true,
+});
+
+// The L2 provider implementing only the given methods.
+const stubProviderL2 = (methods: Partial<Provider>) => methods as Provider;
+
+describe('WalletL1', () => {
+  describe('#deposit()', () => {
+    const providerL1 = (networkName: types.BitcoinNetworkName) =>
+      stubProviderL1({
+        listUnspent: async () => [],
+        getNetworkName: async () => networkName,
+      });
+    const providerL2 = stubProviderL2({
+      getBridgeAddress: async () =>
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+      getL1GasPrice: async () => 1n,
+    });
+
+    it('should refuse to sign when the L1 node is on a different network', async () => {
+      const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1('mainnet'),
+        undefined,
+        providerL2
+      );
+      try {
+        await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'L1 node is connected to mainnet, which does not match the L1 network'
+        );
+      }
+    });
+
+    it('should refuse to sign when the address does not match the signing key', async () => {
+      const {signingKey} = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      const wallet = new WalletL1(
+        signingKey!,
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+        providerL1('regtest'),
+        undefined,
+        providerL2
+      );
+      try {
+        await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Address bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56 does not match the signing key'
+        );
+      }
+    });
+
+    it('should refuse to sign when the signing key belongs to a different network', async () => {
+      const {signingKey} = WalletL1.fromMnemonic(MNEMONIC);
+      const {address} = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1('regtest'),
+        undefined,
+        providerL2
+      );
+      try {
+        await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Signing key does not belong to the L1 network'
+        );
+      }
+    });
+
+    it('should sign the deposit with the L1 signer instead of a private key', async () => {
+      const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      const localSigner = new PrivateKeyL1Signer(
+        signingKey!,
+        utils.REGTEST_NETWORK
+      );
+      const signedInputs: number[][] = [];
+      const signer: types.L1Signer = {
+        getPublicKey: () => localSigner.getPublicKey(),
+        signInputs: async (tx, inputIndexes) => {
+          signedInputs.push(inputIndexes);
+          await localSigner.signInputs(tx, inputIndexes);
+        },
+      };
+      let rawTx = '';
+      const provider = stubProviderL1({
+        listUnspent: async () => [unspent('11'.repeat(32), 0, address, 1)],
+        broadcast: async (tx: string) => {
+          rawTx = tx;
+          return '22'.repeat(32);
+        },
+      });
+
+      const wallet = new WalletL1(
+        signer,
+        address,
+        provider,
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      const tx = await wallet.deposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {feePerByte: 1n},
+      });
+      expect(tx.hash).to.be.equal('22'.repeat(32));
+      expect(tx.feeRate).to.be.deep.equal({feePerByte: 1n, source: 'fixed'});
+      expect(wallet.signingKey).to.be.undefined;
+      expect(signedInputs).to.be.deep.equal([[0]]);
+      expect(
+        btc.Transaction.fromRaw(hex.decode(rawTx), {
+          allowUnknownOutputs: true,
+        }).isFinal
+      ).to.be.true;
+    });
+  });
+
+  describe('#deposit() with InMemoryBitcoinProvider', () => {
+    const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+      network: utils.REGTEST_NETWORK,
+    });
+    const providerL2 = stubProviderL2({
+      getBridgeAddress: async () =>
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+      getL1GasPrice: async () => 2n,
+    });
+
+    it('should confirm the deposit once it is mined', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      const funding = provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      expect(provider.getMempool()).to.be.deep.equal([tx.hash]);
+      expect(await provider.getTxStatus(tx.hash)).to.be.deep.equal({
+        confirmed: false,
+        confirmations: 0,
+      });
+
+      provider.mine(2);
+      const status = await tx.waitL1Commit(2);
+      expect(status.confirmations).to.be.equal(2);
+      const utxos = await wallet.listUtxos();
+      expect(utxos.map(utxo => utxo.txid)).to.not.include(funding);
+      expect(utxos.map(utxo => utxo.txid)).to.include(tx.hash);
+    });
+
+    it('should throw an error when the deposit is not confirmed before the timeout', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      try {
+        await tx.waitL1Commit(1, {timeout: 0});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Timeout exceeded while waiting for deposit ${tx.hash} to be confirmed`
+        );
+      }
+    });
+
+    it('should stop waiting for the confirmations as soon as it is aborted', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+      const started = Date.now();
+      try {
+        await tx.waitL1Commit(1, {signal: controller.signal});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Waiting for deposit confirmations was aborted'
+        );
+      }
+      // The polling interval is not waited out.
+      expect(Date.now() - started).to.be.below(500);
+    });
+
+    it('should refuse the batch deposit unless it is enabled', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      try {
+        await wallet.depositBatch([{to: ADDRESS1, amount: 10_000_000n}], {
+          experimental: false,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Batch deposits are experimental and have to be enabled with `experimental: true`'
+        );
+      }
+      expect(provider.getMempool()).to.be.empty;
+    });
+
+    it('should verify the inclusion of the deposit with the SPV proof', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      const [blockHash] = provider.mine(3);
+      const result = await wallet.verifyDepositInclusion(tx.hash, {
+        confirmations: 3,
+      });
+      expect(result).to.be.deep.equal({
+        blockHash,
+        blockHeight: 1,
+        confirmations: 3,
+        // The minimal proof-of-work of regtest requires 2 hashes per header.
+        chainWork: 6n,
+      });
+    });
+
+    it('should throw an error when the headers do not have the minimum chain work', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      const [blockHash] = provider.mine(3);
+      try {
+        await wallet.verifyDepositInclusion(tx.hash, {
+          confirmations: 3,
+          minChainWork: 2n ** 32n,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Headers from block ${blockHash} have 6 chain work, 4294967296 required`
+        );
+      }
+    });
+
+    it('should require the minimal proof-of-work of a custom network', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      provider.mine();
+
+      const custom = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        {...provider.network, pubKeyHash: 0x30},
+        providerL2
+      );
+      try {
+        await custom.verifyDepositInclusion(tx.hash);
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'L1 network does not match a known network, `powLimitBits` is required'
+        );
+      }
+      const inclusion = await custom.verifyDepositInclusion(tx.hash, {
+        powLimitBits: utils.POW_LIMIT_BITS.regtest,
+      });
+      expect(inclusion.confirmations).to.be.equal(1);
+    });
+
+    it('should throw an error when the deposit does not have the required confirmations', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      provider.mine();
+      try {
+        await wallet.verifyDepositInclusion(tx.hash, {confirmations: 6});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Deposit ${tx.hash} has 1 confirmations, 6 required`
+        );
+      }
+    });
+
+    it('should replace the deposit which signals replaceability', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {rbf: true},
+      });
+      const replacement = await wallet.bumpDepositFee(tx.hash, {
+        newFeePerByte: 10n,
+      });
+      expect(provider.getMempool()).to.be.deep.equal([replacement.hash]);
+    });
+
+    it('should keep the order of the outputs when replacing the batch deposit', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      // BIP-69 would sort the smaller deposit first.
+      const tx = await wallet.depositBatch(
+        [
+          {to: ADDRESS1, amount: 20_000_000n},
+          {to: ADDRESS2, amount: 10_000_000n},
+        ],
+        {experimental: true, opts: {rbf: true}}
+      );
+      const replacement = await wallet.bumpDepositFee(tx.hash, {
+        newFeePerByte: 10n,
+      });
+      const {deposits, errors} = utils.parseDepositTransaction(
+        await provider.getRawTransaction(replacement.hash),
+        await providerL2.getBridgeAddress(),
+        provider.network
+      );
+      expect(errors).to.be.empty;
+      expect(deposits).to.be.deep.equal(tx.deposits);
+    });
+
+    it('should reject the replacement of the deposit which does not signal replaceability', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({to: ADDRESS1, amount: 70_000_000n});
+      try {
+        await wallet.bumpDepositFee(tx.hash, {newFeePerByte: 10n});
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Deposit ${tx.hash} does not signal BIP-125 replaceability`
+        );
+      }
+      expect(provider.getMempool()).to.be.deep.equal([tx.hash]);
+    });
+
+    it('should reject the replacement which does not pay the incremental relay fee', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const tx = await wallet.deposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {feePerByte: 10n, rbf: true},
+      });
+      try {
+        await wallet.bumpDepositFee(tx.hash, {
+          newFeePerByte: 12n,
+          incrementalFeePerByte: 5n,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.match(
+          /^Replacement fee of \d+ satoshi is below the required \d+ satoshi$/
+        );
+      }
+      expect(provider.getMempool()).to.be.deep.equal([tx.hash]);
+    });
+
+    it('should throw an error when the change output does not cover the child fee', async () => {
+      const prevTx = new btc.Transaction();
+      prevTx.addInput({txid: new Uint8Array(32), index: 0});
+      prevTx.addOutputAddress(address, 70_010_000n, utils.REGTEST_NETWORK);
+      // The deposit leaves 50 satoshi of change, which cannot pay for a child even at 1 sat/vB.
+      const depositTx = new btc.Transaction({allowUnknownOutputs: true});
+      depositTx.addInput({
+        txid: hex.decode('11'.repeat(32)),
+        index: 0,
+        witnessUtxo: prevTx.getOutput(0) as {
+          script: Uint8Array;
+          amount: bigint;
+        },
+      });
+      depositTx.addOutputAddress(
+        await providerL2.getBridgeAddress(),
+        70_000_000n,
+        utils.REGTEST_NETWORK
+      );
+      depositTx.addOutput({
+        script: btc.Script.encode(['RETURN', hex.decode(ADDRESS1.slice(2))]),
+        amount: 0n,
+      });
+      depositTx.addOutputAddress(address, 50n, utils.REGTEST_NETWORK);
+      depositTx.sign(btc.WIF(utils.REGTEST_NETWORK).decode(signingKey!));
+      depositTx.finalize();
+      const provider = stubProviderL1({
+        getRawTransaction: async (txid: string) =>
+          hex.encode(
+            (txid === '22'.repeat(32) ? depositTx : prevTx).toBytes(true, true)
+          ),
+      });
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+
+      try {
+        await wallet.bumpDepositFee('22'.repeat(32), {
+          newFeePerByte: 1_000n,
+          method: 'cpfp',
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Change output does not cover the child fee'
+        );
+      }
+    });
+  });
+
+  describe('#finalizeAndBroadcastDepositPsbt()', () => {
+    const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+      network: utils.REGTEST_NETWORK,
+    });
+    const providerL2 = stubProviderL2({
+      getBridgeAddress: async () =>
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+      getL1GasPrice: async () => 2n,
+    });
+
+    const signPsbt = (psbt: Uint8Array) => {
+      const tx = btc.Transaction.fromPSBT(psbt);
+      tx.sign(btc.WIF(utils.REGTEST_NETWORK).decode(signingKey!));
+      return tx.toPSBT();
+    };
+
+    it('should broadcast the signed deposit', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const psbt = await wallet.buildDepositPsbt({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+      });
+      const tx = await wallet.finalizeAndBroadcastDepositPsbt(signPsbt(psbt));
+      expect(provider.getMempool()).to.be.deep.equal([tx.hash]);
+    });
+
+    it('should throw an error when the transaction does not pay the bridge address', async () => {
+      const provider = new InMemoryBitcoinProvider();
+      provider.fund(address, 100_000_000n);
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        provider,
+        provider.network,
+        providerL2
+      );
+
+      const psbt = await wallet.buildDepositPsbt({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+      });
+      const otherBridge = wallet.connectToL2(
+        stubProviderL2({
+          getBridgeAddress: async () =>
+            'bcrt1pfceu92l2rz44acv6y37etczl73prv09esdp0ec0srttltf5yvj3qwtuky6',
+        })
+      );
+      const signed = btc.Transaction.fromPSBT(signPsbt(psbt));
+      signed.finalize();
+      try {
+        await otherBridge.finalizeAndBroadcastDepositPsbt(signPsbt(psbt));
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Transaction ${signed.id} is not a deposit: Transaction does not pay the bridge address`
+        );
+      }
+      expect(provider.getMempool()).to.be.deep.equal([]);
+    });
+  });
+
+  describe('#estimateDeposit()', () => {
+    const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+      network: utils.REGTEST_NETWORK,
+    });
+    const providerL1 = (estimates: Record<number, bigint>) =>
+      stubProviderL1({
+        listUnspent: async () => [unspent('11'.repeat(32), 0, address, 1)],
+        estimateFeeRate: async (confTarget: number) =>
+          estimates[confTarget] ?? null,
+      });
+    const providerL2 = stubProviderL2({
+      getBridgeAddress: async () =>
+        'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+      getL1GasPrice: async () => 100n,
+    });
+
+    it('should use the fee rate estimate of the tier', async () => {
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1({2: 30n, 6: 12n, 144: 2n}),
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      const result = await wallet.estimateDeposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {feeRateTier: 'normal'},
+      });
+      expect(result.feePerByte).to.be.equal(12n);
+      expect(result.feeRateSource).to.be.equal('normal');
+    });
+
+    it('should clamp the L1 gas price of the L2 network to the maximum fee rate', async () => {
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1({}),
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      const result = await wallet.estimateDeposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {maxFeePerByte: 20n},
+      });
+      expect(result.feePerByte).to.be.equal(20n);
+      expect(result.feeRateSource).to.be.equal('l2');
+    });
+
+    it('should throw an error when the amount is below the minimum deposit amount', async () => {
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1({}),
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      try {
+        await wallet.estimateDeposit({
+          to: ADDRESS1,
+          amount: 10_000n,
+          opts: {minDepositAmount: 50_000n},
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(DepositBelowMinimumError);
+        expect((e as DepositBelowMinimumError).minimum).to.be.equal(50_000n);
+      }
+    });
+
+    it('should throw an error when the UTXOs do not cover the amount and the fee', async () => {
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1({}),
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      try {
+        await wallet.estimateDeposit({
+          to: ADDRESS1,
+          amount: 100_000_000n,
+          opts: {feePerByte: 1n},
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(InsufficientL1FundsError);
+        expect((e as InsufficientL1FundsError).message).to.be.equal(
+          'Insufficient L1 funds: 100000000 satoshi available, 100000000 satoshi and the fee required'
+        );
+      }
+    });
+
+    it('should throw an error when the tier has no fee rate estimate', async () => {
+      const wallet = new WalletL1(
+        signingKey!,
+        address,
+        providerL1({}),
+        utils.REGTEST_NETWORK,
+        providerL2
+      );
+      try {
+        await wallet.estimateDeposit({
+          to: ADDRESS1,
+          amount: 70_000_000n,
+          opts: {feeRateTier: 'priority'},
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'No fee rate estimate for the priority tier'
+        );
+      }
+    });
+  });
+
+  describe('#getBalance()', () => {
+    it('should sum the outputs with the given confirmations', async () => {
+      const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      let minConf: number | undefined;
+      const provider = stubProviderL1({
+        listUnspent: async (addresses: string[], min?: number) => {
+          minConf = min;
+          return [
+            unspent('11'.repeat(32), 0, address, 0.5),
+            unspent('22'.repeat(32), 1, address, 0.00001),
+          ];
+        },
+      });
+
+      const wallet = new WalletL1(signingKey!, address, provider);
+      const result = await wallet.getBalance({minConf: 0});
+      expect(result).to.be.equal(50_001_000n);
+      expect(minConf).to.be.equal(0);
+    });
+  });
+
+  describe('#transfer()', () => {
+    const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+      network: utils.REGTEST_NETWORK,
+    });
+
+    it('should pay the L1 recipient without the L2 provider', async () => {
+      let rawTx = '';
+      const provider = stubProviderL1({
+        listUnspent: async () => [unspent('11'.repeat(32), 0, address, 1)],
+        broadcast: async (tx: string) => {
+          rawTx = tx;
+          return '22'.repeat(32);
+        },
+      });
+
+      const wallet = new WalletL1(signingKey!, address, provider);
+      const result = await wallet.transfer({
+        to: 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+        amount: 100_000n,
+        opts: {feePerByte: 1n},
+      });
+      expect(result).to.be.equal('22'.repeat(32));
+
+      const tx = btc.Transaction.fromRaw(hex.decode(rawTx));
+      const payment = Array.from({length: tx.outputsLength}, (_, i) => ({
+        address: tx.getOutputAddress(i, utils.REGTEST_NETWORK),
+        amount: tx.getOutput(i).amount,
+      })).find(
+        output =>
+          output.address === 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56'
+      );
+      expect(payment?.amount).to.be.equal(100_000n);
+    });
+
+    it('should throw an error when the L1 recipient belongs to a different network', async () => {
+      const wallet = new WalletL1(signingKey!, address);
+      try {
+        await wallet.transfer({
+          to: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+          amount: 100_000n,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Address bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu does not belong to the L1 network'
+        );
+      }
+    });
+  });
+
+  describe('#getWithdrawalStatus()', () => {
+    const BRIDGE_ADDRESS = 'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56';
+    const PAYOUT_TXID = '11'.repeat(32);
+    const EXECUTE_TXID = '33'.repeat(32);
+    const {signingKey, address} = WalletL1.fromMnemonic(MNEMONIC, {
+      network: utils.REGTEST_NETWORK,
+    });
+
+    const bridgeTx = new btc.Transaction();
+    bridgeTx.addInput({txid: new Uint8Array(32), index: 0});
+    bridgeTx.addOutputAddress(BRIDGE_ADDRESS, 150_000n, utils.REGTEST_NETWORK);
+    // The payout of two withdrawals to the same recipient, referencing the batch by its execute txid.
+    const payoutTx = new btc.Transaction({allowUnknownOutputs: true});
+    payoutTx.addInput({txid: new Uint8Array(32), index: 0});
+    payoutTx.addOutputAddress(address, 49_000n, utils.REGTEST_NETWORK);
+    payoutTx.addOutputAddress(address, 99_000n, utils.REGTEST_NETWORK);
+    payoutTx.addOutput({
+      script: btc.Script.encode(['RETURN', hex.decode(EXECUTE_TXID)]),
+      amount: 0n,
+    });
+
+    const withdrawalLog = (amount: bigint, index: number) => ({
+      address: utils.L2_BASE_TOKEN_ADDRESS,
+      transactionHash: `0x${index}`,
+      index,
+      ...utils.L2_BASE_TOKEN_ABI.encodeEventLog('Withdrawal', [
+        ADDRESS1,
+        ethers.toUtf8Bytes(address),
+        amount * 10n ** 10n,
+      ]),
+    });
+    const log = withdrawalLog(100_000n, 1);
+
+    const walletWith = (
+      batch: Partial<types.BatchDetails>,
+      received: string[],
+      batchLogs = [withdrawalLog(50_000n, 0), log]
+    ) => {
+      // Only the fields which are used to track the withdrawal are stubbed.
+      const providerL2 = stubProviderL2({
+        getTransactionReceipt: async () =>
+          ({
+            blockNumber: 10,
+            status: 1,
+            l1BatchNumber: 5,
+            logs: [log],
+          }) as unknown as types.TransactionReceipt,
+        getTransaction: async () =>
+          ({
+            data: utils.L2_BASE_TOKEN_ABI.encodeFunctionData('withdraw', [
+              ethers.toUtf8Bytes(address),
+            ]),
+          }) as types.TransactionResponse,
+        getL1BatchDetails: async () => batch as types.BatchDetails,
+        getL1BatchBlockRange: async () => [9, 11],
+        getLogs: async () => batchLogs as unknown as types.Log[],
+        getBridgeAddress: async () => BRIDGE_ADDRESS,
+      });
+      const providerL1 = stubProviderL1({
+        listReceivedTransactions: async () => received,
+        getRawTransaction: async (txid: string) =>
+          hex.encode(
+            txid === PAYOUT_TXID ? payoutTx.toBytes() : bridgeTx.toBytes()
+          ),
+      });
+      return new WalletL1(
+        signingKey!,
+        address,
+        providerL1,
+        undefined,
+        providerL2
+      );
+    };
+
+    it('should decode the withdrawal and report the committed batch', async () => {
+      const wallet = walletWith({commitTxHash: '22'.repeat(32)}, []);
+      const result = await wallet.getWithdrawalStatus(log.transactionHash);
+      expect(result.status).to.be.equal(types.WithdrawalStatus.Committed);
+      expect(result.from).to.be.equal(ADDRESS1);
+      expect(result.to).to.be.equal(address);
+      expect(result.amount).to.be.equal(100_000n);
+      expect(result.l1BatchNumber).to.be.equal(5);
+    });
+
+    it('should report the executed batch until the payout is found', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: EXECUTE_TXID},
+        ['22'.repeat(32)]
+      );
+      const result = await wallet.getWithdrawalStatus(log.transactionHash);
+      expect(result.status).to.be.equal(types.WithdrawalStatus.Executed);
+      expect(result.payoutTxid).to.be.undefined;
+    });
+
+    it('should locate the output paying out the withdrawal in the order of the batch', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: EXECUTE_TXID},
+        [PAYOUT_TXID]
+      );
+      const result = await wallet.getWithdrawalStatus(log.transactionHash);
+      expect(result.status).to.be.equal(types.WithdrawalStatus.PaidOut);
+      expect(result.payoutTxid).to.be.equal(PAYOUT_TXID);
+      expect(result.payoutVout).to.be.equal(1);
+    });
+
+    it('should not match the output which does not pay the withdrawn amount after the fee', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: EXECUTE_TXID},
+        [PAYOUT_TXID],
+        [log]
+      );
+      const result = await wallet.getWithdrawalStatus(log.transactionHash);
+      expect(result.status).to.be.equal(types.WithdrawalStatus.Executed);
+    });
+
+    it('should not match the payout of another batch', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: '44'.repeat(32)},
+        [PAYOUT_TXID]
+      );
+      const result = await wallet.getWithdrawalStatus(log.transactionHash);
+      expect(result.status).to.be.equal(types.WithdrawalStatus.Executed);
+    });
+
+    it('should throw an error when the payout is not found before the timeout', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: EXECUTE_TXID},
+        []
+      );
+      try {
+        await wallet.waitForWithdrawalPayout(log.transactionHash, {
+          timeout: 0,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Timeout exceeded while waiting for withdrawal ${log.transactionHash}`
+        );
+      }
+    });
+
+    it('should not wait out the polling interval past the timeout', async () => {
+      const wallet = walletWith(
+        {commitTxHash: '22'.repeat(32), executeTxHash: EXECUTE_TXID},
+        []
+      );
+      const started = Date.now();
+      try {
+        await wallet.waitForWithdrawalPayout(log.transactionHash, {
+          timeout: 50,
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          `Timeout exceeded while waiting for withdrawal ${log.transactionHash}`
+        );
+      }
+      expect(Date.now() - started).to.be.below(5_000);
+    });
+
+    it('should stop waiting for the payout once aborted', async () => {
+      const wallet = walletWith({commitTxHash: '22'.repeat(32)}, []);
+      try {
+        await wallet.waitForWithdrawalPayout(log.transactionHash, {
+          signal: AbortSignal.abort(),
+        });
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Waiting for withdrawal payout was aborted'
+        );
+      }
+    });
+  });
+
+  describe('#listUtxos() with HD scanning', () => {
+    const providerWith = (received: string[], funded: string[]) =>
+      stubProviderL1({
+        listReceivedTransactions: async (address: string) =>
+          received.includes(address) ? ['11'.repeat(32)] : [],
+        listUnspent: async (addresses: string[]) =>
+          addresses
+            .filter(address => funded.includes(address))
+            .map(address => unspent('22'.repeat(32), 0, address, 1)),
+        broadcast: async () => '33'.repeat(32),
+      });
+
+    it('should find the outputs beyond the gap limit of spent addresses', async () => {
+      const wallet = WalletL1.fromMnemonic(
+        MNEMONIC,
+        {network: utils.REGTEST_NETWORK, gapLimit: 2},
+        providerWith(
+          [hdAddress(0, 0), hdAddress(0, 1), hdAddress(0, 2)],
+          [hdAddress(0, 2)]
+        )
+      );
+
+      const result = await wallet.listUtxos();
+      expect(result.map(utxo => utxo.address)).to.be.deep.equal([
+        hdAddress(0, 2),
+      ]);
+    });
+
+    it('should not send the change to a spent change address', async () => {
+      let rawTx = '';
+      const provider = providerWith(
+        [hdAddress(0, 0), hdAddress(1, 0)],
+        [hdAddress(0, 0)]
+      );
+      provider.broadcast = async (tx: string) => {
+        rawTx = tx;
+        return '33'.repeat(32);
+      };
+      const wallet = WalletL1.fromMnemonic(
+        MNEMONIC,
+        {network: utils.REGTEST_NETWORK},
+        provider,
+        stubProviderL2({
+          getBridgeAddress: async () =>
+            'bcrt1qx2lk0unukm80qmepjp49hwf9z6xnz0s73k9j56',
+          getL1GasPrice: async () => 1n,
+        })
+      );
+
+      await wallet.deposit({
+        to: ADDRESS1,
+        amount: 70_000_000n,
+        opts: {feePerByte: 1n},
+      });
+      const tx = btc.Transaction.fromRaw(hex.decode(rawTx), {
+        allowUnknownOutputs: true,
+      });
+      const scripts = Array.from({length: tx.outputsLength}, (_, i) =>
+        hex.encode(tx.getOutput(i).script!)
+      );
+      expect(scripts).to.include(
+        hex.encode(
+          btc.OutScript.encode(
+            btc.Address(utils.REGTEST_NETWORK).decode(hdAddress(1, 1))
+          )
+        )
+      );
+    });
+  });
+
+  describe('#fromMnemonic()', () => {
+    it('should derive the BIP84 address by default', async () => {
+      const wallet = WalletL1.fromMnemonic(MNEMONIC);
+      expect(wallet.address).to.be.equal(
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+      expect(wallet.signingKey).to.be.equal(
+        'KyZpNDKnfs94vbrwhJneDi77V6jF64PWPF8x5cdJb8ifgg2DUc9d'
+      );
+    });
+
+    it('should derive the BIP86 address', async () => {
+      const wallet = WalletL1.fromMnemonic(MNEMONIC, {purpose: 86});
+      expect(wallet.address).to.be.equal(
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+      );
+    });
+
+    it('should derive the address of the given account', async () => {
+      const wallet = WalletL1.fromMnemonic(MNEMONIC, {account: 1});
+      expect(wallet.address).to.be.equal(
+        'bc1qku0qh0mc00y8tk0n65x2tqw4trlspak0fnjmfz'
+      );
+    });
+
+    it('should throw when connected to another L1 network', async () => {
+      const wallet = WalletL1.fromMnemonic(MNEMONIC, {
+        network: utils.REGTEST_NETWORK,
+      });
+      try {
+        wallet.connect(
+          new InMemoryBitcoinProvider(),
+          utils.BTC_NETWORKS.mainnet
+        );
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'HD wallet is derived for another L1 network, derive it from the mnemonic again'
+        );
+      }
+    });
+  });
+});
+
+describe('Wallet', () => {
+  describe('#connect()', () => {
+    it('should keep the HD accounts of the L1 wallet', async () => {
+      const providerL1 = stubProviderL1({
+        listReceivedTransactions: async (address: string) =>
+          address === hdAddress(0, 1) ? ['11'.repeat(32)] : [],
+        listUnspent: async (addresses: string[]) =>
+          addresses
+            .filter(address => address === hdAddress(0, 1))
+            .map(address => unspent('22'.repeat(32), 0, address, 1)),
+      });
+      const wallet = Wallet.fromMnemonic(
+        MNEMONIC,
+        undefined,
+        undefined,
+        undefined,
+        providerL1,
+        utils.REGTEST_NETWORK
+      ).connect(
+        stubProviderL2({getNetwork: async () => ethers.Network.from(270)})
+      );
+
+      const result = await wallet.listUtxosL1();
+      expect(result.map(utxo => utxo.address)).to.be.deep.equal([
+        hdAddress(0, 1),
+      ]);
+    });
+  });
+
+  describe('#fromMnemonic()', () => {
+    it('should derive both L2 and L1 keys from the mnemonic', async () => {
+      const wallet = Wallet.fromMnemonic(MNEMONIC);
+      expect(wallet.address).to.be.equal(
+        '0x9858EfFD232B4033E47d90003D41EC34EcaEda94'
+      );
+      expect(wallet.addressL1).to.be.equal(
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+      );
+    });
+
+    it('should derive the taproot L1 address', async () => {
+      const wallet = Wallet.fromMnemonic(
+        MNEMONIC,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        {purpose: 86}
+      );
+      expect(wallet.addressL1).to.be.equal(
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+      );
+    });
+
+    it('should throw an error when only the L1 address is provided', async () => {
+      try {
+        Wallet.fromMnemonic(
+          MNEMONIC,
+          undefined,
+          undefined,
+          'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+        );
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect((e as Error).message).to.be.equal(
+          'Both `privateKeyL1` and `addressL1` have to be provided, or neither'
+        );
+      }
+    });
+  });
+});